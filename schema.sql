@@ -6,23 +6,102 @@
 -- Scrape runs tracking
 CREATE TABLE IF NOT EXISTS scrape_runs (
   id SERIAL PRIMARY KEY,
-  run_type VARCHAR(20) NOT NULL, -- 'city', 'search'
+  run_type VARCHAR(20) NOT NULL, -- 'city', 'search', 'geo', 'verify', 'refresh'
   started_at TIMESTAMP NOT NULL,
   completed_at TIMESTAMP,
-  status VARCHAR(20) NOT NULL, -- 'running', 'completed', 'failed'
+  status VARCHAR(20) NOT NULL, -- 'running', 'draining' (queued, results coming in), 'completed', 'failed', 'skipped'
+  triggered_by VARCHAR(50), -- scheduler job that started the run (NULL = manual)
+  notes TEXT, -- skip reason, error or job summary
   properties_discovered INTEGER DEFAULT 0,
   properties_changed INTEGER DEFAULT 0,
   properties_unchanged INTEGER DEFAULT 0,
   properties_new INTEGER DEFAULT 0,
   properties_inactive INTEGER DEFAULT 0,
-  errors_count INTEGER DEFAULT 0,
+  errors_count INTEGER DEFAULT 0, -- counted by workers and verifier on the run that queued the ID
+  expected_ids INTEGER DEFAULT 0, -- total results reported by the search pages
+  actual_ids INTEGER DEFAULT 0, -- unique listing IDs collected
+  new_ids INTEGER DEFAULT 0, -- IDs never seen before in their segment
+  city_counts JSONB DEFAULT '{}', -- per city/category: expected, actual, newIds, pages, totalPages, shards
+  category_counts JSONB DEFAULT '{}', -- per category: expected, actual, newIds (set on completion)
+  detail_fetches_skipped INTEGER DEFAULT 0, -- known listings with an unchanged search summary
+  queued_at TIMESTAMP, -- queueing done (status 'draining' until the queued IDs are processed)
+  last_activity_at TIMESTAMP, -- last city counts or results (stale running runs are failed)
   duration_seconds NUMERIC(10,2),
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Upgrade existing databases: expected vs actual counts
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS expected_ids INTEGER DEFAULT 0;
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS actual_ids INTEGER DEFAULT 0;
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS city_counts JSONB DEFAULT '{}';
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS category_counts JSONB DEFAULT '{}';
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS detail_fetches_skipped INTEGER DEFAULT 0;
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS triggered_by VARCHAR(50);
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS new_ids INTEGER DEFAULT 0;
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS queued_at TIMESTAMP;
+ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP;
+
 CREATE INDEX idx_scrape_runs_started ON scrape_runs(started_at DESC);
 CREATE INDEX idx_scrape_runs_status ON scrape_runs(status);
 
+-- Search shard plans (per city, transaction type and category, reused across runs)
+CREATE TABLE IF NOT EXISTS search_shard_plans (
+  city VARCHAR(100) NOT NULL,
+  transaction_type VARCHAR(20) NOT NULL,
+  category VARCHAR(20) NOT NULL DEFAULT 'residenziale',
+  shards JSONB NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (city, transaction_type, category)
+);
+
+-- Upgrade existing databases: shard plans per category
+ALTER TABLE search_shard_plans ADD COLUMN IF NOT EXISTS category VARCHAR(20) NOT NULL DEFAULT 'residenziale';
+ALTER TABLE search_shard_plans DROP CONSTRAINT IF EXISTS search_shard_plans_pkey;
+ALTER TABLE search_shard_plans ADD PRIMARY KEY (city, transaction_type, category);
+
+-- Coordinator checkpoints (position of an unfinished run in each city/category
+-- search, saved after every page; cities are searched concurrently)
+CREATE TABLE IF NOT EXISTS discovery_checkpoints (
+  run_id INTEGER NOT NULL REFERENCES scrape_runs(id),
+  city VARCHAR(100) NOT NULL,
+  category VARCHAR(20) NOT NULL,
+  transaction_type VARCHAR(20) NOT NULL,
+  filters TEXT NOT NULL DEFAULT '', -- filters query of a targeted search ('' = none)
+  next_page INTEGER NOT NULL,
+  state JSONB NOT NULL, -- shards left and searched, counts so far
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (run_id, city, category, filters)
+);
+
+-- Upgrade existing databases: one checkpoint per search and filters
+ALTER TABLE discovery_checkpoints ADD COLUMN IF NOT EXISTS filters TEXT NOT NULL DEFAULT '';
+ALTER TABLE discovery_checkpoints DROP CONSTRAINT IF EXISTS discovery_checkpoints_pkey;
+ALTER TABLE discovery_checkpoints ADD PRIMARY KEY (run_id, city, category, filters);
+
+-- Geo discovery map tiles (one row per tile searched, split tiles included)
+CREATE TABLE IF NOT EXISTS geo_tiles (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER REFERENCES scrape_runs(id),
+  area_name VARCHAR(100) NOT NULL,
+  depth INTEGER NOT NULL,
+  min_lat NUMERIC(9,6) NOT NULL,
+  min_lng NUMERIC(9,6) NOT NULL,
+  max_lat NUMERIC(9,6) NOT NULL,
+  max_lng NUMERIC(9,6) NOT NULL,
+  expected_ids INTEGER, -- total results reported by the map search
+  actual_ids INTEGER NOT NULL,
+  new_ids INTEGER NOT NULL, -- IDs not found by earlier (city-slug) searches
+  pages INTEGER NOT NULL,
+  capped BOOLEAN NOT NULL DEFAULT FALSE, -- over the result cap at max depth
+  split BOOLEAN NOT NULL DEFAULT FALSE, -- over the result cap, split into quadrants
+  listing_ids TEXT[] NOT NULL DEFAULT '{}',
+  scraped_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_geo_tiles_run ON geo_tiles(run_id);
+CREATE INDEX idx_geo_tiles_area ON geo_tiles(area_name, scraped_at DESC);
+
 -- Property snapshots (raw data from each scrape)
 CREATE TABLE IF NOT EXISTS property_snapshots (
   id SERIAL PRIMARY KEY,
@@ -97,6 +176,18 @@ CREATE INDEX idx_areas_next_scrape ON geographic_areas(next_scrape);
 CREATE INDEX idx_areas_change_rate ON geographic_areas(change_rate DESC);
 CREATE INDEX idx_areas_type ON geographic_areas(area_type);
 
+-- Areas scraped by an adaptive run, rescheduled from their change rate when
+-- the run completes (once workers have fetched the listings' details)
+CREATE TABLE IF NOT EXISTS area_scrapes (
+  run_id INTEGER NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+  area_name VARCHAR(100) NOT NULL,
+  previous_scrape TIMESTAMP, -- last_scraped before this run (NULL = never scraped)
+  scraped_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  listing_ids TEXT[] NOT NULL DEFAULT '{}',
+  new_ids INTEGER NOT NULL DEFAULT 0, -- IDs never seen before in their segment
+  PRIMARY KEY (run_id, area_name)
+);
+
 -- Scraper health monitoring
 CREATE TABLE IF NOT EXISTS scraper_health (
   id SERIAL PRIMARY KEY,
@@ -109,11 +200,25 @@ CREATE TABLE IF NOT EXISTS scraper_health (
   worker_count INTEGER,
   avg_processing_time_ms NUMERIC(10,2),
   errors_last_hour INTEGER,
+  new_last_hour INTEGER,
+  changed_last_hour INTEGER,
+  unchanged_last_hour INTEGER,
+  new_today INTEGER,
+  changed_today INTEGER,
+  unchanged_today INTEGER,
   created_at TIMESTAMP DEFAULT NOW()
 );
 
 CREATE INDEX idx_health_checked_at ON scraper_health(checked_at DESC);
 
+-- Upgrade existing databases: change counters
+ALTER TABLE scraper_health ADD COLUMN IF NOT EXISTS new_last_hour INTEGER;
+ALTER TABLE scraper_health ADD COLUMN IF NOT EXISTS changed_last_hour INTEGER;
+ALTER TABLE scraper_health ADD COLUMN IF NOT EXISTS unchanged_last_hour INTEGER;
+ALTER TABLE scraper_health ADD COLUMN IF NOT EXISTS new_today INTEGER;
+ALTER TABLE scraper_health ADD COLUMN IF NOT EXISTS changed_today INTEGER;
+ALTER TABLE scraper_health ADD COLUMN IF NOT EXISTS unchanged_today INTEGER;
+
 -- Create view for quick stats
 CREATE OR REPLACE VIEW scraper_stats AS
 SELECT
@@ -0,0 +1,261 @@
+/**
+ * Browser Context Pool for Discovery
+ *
+ * One Chromium browser with BROWSER_CONTEXTS isolated contexts, each with
+ * its own proxy session (PROXY_SESSION_USERNAME) and stealth profile (user
+ * agent, viewport, geolocation). Every search page runs on a free context.
+ * A context blocked by DataDome is recycled with a new session and profile
+ * and rests for BROWSER_CONTEXT_COOLDOWN_MS while the page is retried on
+ * another context. A context blocked BROWSER_CONTEXT_MAX_BLOCKS times in a
+ * row is retired; the pool is exhausted only when every context is retired.
+ */
+
+import * as crypto from 'crypto';
+import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { config, MAJOR_CITIES_COORDS } from './config';
+import { createLogger } from './logger';
+import { delay } from './utils';
+import { classifyFailure } from './failures';
+import { applyStealthConfig, applyPageStealth, getRandomUserAgent } from './stealth';
+
+const logger = createLogger('BrowserPool');
+
+/** Poll interval while waiting for a free context */
+const ACQUIRE_POLL_INTERVAL_MS = 250;
+
+const VIEWPORTS = [
+  { width: 1920, height: 1080 },
+  { width: 1680, height: 1050 },
+  { width: 1536, height: 864 },
+  { width: 1440, height: 900 },
+  { width: 1366, height: 768 },
+];
+
+/**
+ * Browser fingerprint of a context
+ */
+export interface StealthProfile {
+  userAgent: string;
+  viewport: { width: number; height: number };
+  geolocation: { latitude: number; longitude: number };
+}
+
+interface PooledContext {
+  id: number;
+  session: string; // proxy session (new on every recycle)
+  profile: StealthProfile;
+  context: BrowserContext;
+  page: Page;
+  busy: boolean;
+  consecutiveBlocks: number;
+  restUntil: number;
+  retired: boolean;
+}
+
+/**
+ * Random stealth profile (geolocation near a major Italian city)
+ */
+export function randomStealthProfile(): StealthProfile {
+  const cities = Object.values(MAJOR_CITIES_COORDS);
+  const city = cities[Math.floor(Math.random() * cities.length)];
+  return {
+    userAgent: getRandomUserAgent(),
+    viewport: VIEWPORTS[Math.floor(Math.random() * VIEWPORTS.length)],
+    geolocation: { latitude: city.lat, longitude: city.lng },
+  };
+}
+
+/**
+ * Proxy of a context: PROXY_SESSION_USERNAME with {session} replaced gives
+ * each context its own sticky session (unset = PROXY_USERNAME for all)
+ */
+function proxyFor(session: string): { server: string; username?: string; password?: string } | undefined {
+  if (!config.proxyServer) return undefined;
+  return {
+    server: config.proxyServer,
+    username: config.proxySessionUsername
+      ? config.proxySessionUsername.replace('{session}', session)
+      : config.proxyUsername,
+    password: config.proxyPassword,
+  };
+}
+
+export class BrowserContextPool {
+  private size: number;
+  private browser: Browser | null = null;
+  private contexts: PooledContext[] = [];
+
+  constructor(size: number = config.browserContexts) {
+    this.size = Math.max(1, size);
+  }
+
+  /**
+   * Launch the browser and open every context
+   */
+  async initialize(): Promise<void> {
+    logger.info(`Initializing stealth Playwright browser (${this.size} contexts)...`);
+
+    const launchOptions: Parameters<typeof chromium.launch>[0] = {
+      headless: config.headless,
+      args: [
+        '--disable-blink-features=AutomationControlled',
+        '--disable-features=IsolateOrigins,site-per-process',
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+      ],
+    };
+
+    // Contexts override the launch proxy with their own session
+    const proxy = proxyFor('launch');
+    if (proxy) {
+      launchOptions.proxy = proxy;
+      logger.info(
+        `Using proxy: ${config.proxyServer}` +
+        (config.proxySessionUsername ? ' (one session per context)' : '')
+      );
+    } else {
+      logger.warn('No proxy configured - DataDome may block datacenter IPs');
+    }
+
+    this.browser = await chromium.launch(launchOptions);
+    for (let id = 1; id <= this.size; id++) {
+      this.contexts.push({
+        id,
+        ...(await this.openContext()),
+        busy: false,
+        consecutiveBlocks: 0,
+        restUntil: 0,
+        retired: false,
+      });
+    }
+
+    logger.info('Browser contexts initialized with stealth settings');
+  }
+
+  /**
+   * Open a context with a new proxy session and stealth profile
+   */
+  private async openContext(): Promise<Pick<PooledContext, 'session' | 'profile' | 'context' | 'page'>> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized');
+    }
+
+    const session = crypto.randomBytes(4).toString('hex');
+    const profile = randomStealthProfile();
+    const context = await this.browser.newContext({
+      viewport: profile.viewport,
+      userAgent: profile.userAgent,
+      locale: 'it-IT',
+      timezoneId: 'Europe/Rome',
+      geolocation: profile.geolocation,
+      permissions: ['geolocation'],
+      proxy: proxyFor(session),
+    });
+
+    await applyStealthConfig(context);
+    const page = await context.newPage();
+    await applyPageStealth(page);
+    return { session, profile, context, page };
+  }
+
+  /**
+   * Run a task on the page of a free context (waits for one)
+   * A blocked task recycles its context and is retried on another context,
+   * at most once per context; other errors are thrown to the caller.
+   */
+  async run<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const pooled = await this.acquire();
+      try {
+        const result = await task(pooled.page);
+        pooled.consecutiveBlocks = 0;
+        return result;
+      } catch (error) {
+        if (classifyFailure(error).failureClass !== 'blocked') throw error;
+        await this.handleBlocked(pooled);
+        if (attempt >= this.size || this.isExhausted()) throw error;
+        logger.warn(`Retrying on another context (attempt ${attempt + 1})`);
+      } finally {
+        pooled.busy = false;
+      }
+    }
+  }
+
+  /**
+   * Take a free context that is not resting
+   */
+  private async acquire(): Promise<PooledContext> {
+    while (true) {
+      if (this.isExhausted()) {
+        throw new Error('Every browser context was retired after DataDome blocks');
+      }
+      const now = Date.now();
+      const free = this.contexts.find(pooled => !pooled.retired && !pooled.busy && pooled.restUntil <= now);
+      if (free) {
+        free.busy = true;
+        return free;
+      }
+      await delay(ACQUIRE_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Recycle a blocked context and let it rest (or retire it after
+   * BROWSER_CONTEXT_MAX_BLOCKS blocks in a row)
+   */
+  private async handleBlocked(pooled: PooledContext): Promise<void> {
+    pooled.consecutiveBlocks++;
+    await pooled.context.close().catch(() => {});
+
+    if (pooled.consecutiveBlocks >= config.browserContextMaxBlocks) {
+      pooled.retired = true;
+      logger.error(
+        `Context #${pooled.id} retired after ${pooled.consecutiveBlocks} blocks in a row ` +
+        `(${this.getActiveCount()} of ${this.size} left)`
+      );
+      return;
+    }
+
+    try {
+      Object.assign(pooled, await this.openContext());
+      pooled.restUntil = Date.now() + config.browserContextCooldownMs;
+      logger.warn(
+        `Context #${pooled.id} blocked, recycled with proxy session ${pooled.session}, ` +
+        `resting ${Math.round(config.browserContextCooldownMs / 1000)}s`
+      );
+    } catch (error) {
+      pooled.retired = true;
+      logger.error(`Context #${pooled.id} could not be reopened, retired:`, error);
+    }
+  }
+
+  /**
+   * Number of contexts not retired
+   */
+  getActiveCount(): number {
+    return this.contexts.filter(pooled => !pooled.retired).length;
+  }
+
+  /**
+   * Whether every context was retired
+   */
+  isExhausted(): boolean {
+    return this.contexts.length > 0 && this.getActiveCount() === 0;
+  }
+
+  /**
+   * Close every context and the browser
+   */
+  async close(): Promise<void> {
+    for (const pooled of this.contexts) {
+      if (!pooled.retired) {
+        await pooled.context.close().catch(() => {});
+      }
+    }
+    this.contexts = [];
+    if (this.browser) {
+      await this.browser.close();
+      this.browser = null;
+    }
+  }
+}
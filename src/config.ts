@@ -5,6 +5,21 @@
 import * as dotenv from 'dotenv';
 dotenv.config();
 
+/**
+ * Property categories of the portal's search (URL path of each search)
+ * residenziale = houses and flats, uffici = offices, negozi = shops,
+ * capannoni = warehouses, terreni = land, box = garages and parking,
+ * palazzi = whole buildings
+ */
+export type PropertyCategory = 'residenziale' | 'uffici' | 'negozi' | 'capannoni' | 'terreni' | 'box' | 'palazzi';
+
+export const PROPERTY_CATEGORIES: PropertyCategory[] = [
+  'residenziale', 'uffici', 'negozi', 'capannoni', 'terreni', 'box', 'palazzi',
+];
+
+/** Category of IDs queued without one (and of the original residential-only searches) */
+export const DEFAULT_CATEGORY: PropertyCategory = 'residenziale';
+
 export interface ImmobiliareConfig {
   // Redis
   redisUrl: string;
@@ -30,11 +45,151 @@ export interface ImmobiliareConfig {
   proxyServer?: string;
   proxyUsername?: string;
   proxyPassword?: string;
+  proxySessionUsername?: string;
+
+  // Coordinator browser contexts (isolated proxy session and stealth profile each)
+  browserContexts: number;
+  discoveryConcurrency: number;
+  browserContextCooldownMs: number;
+  browserContextMaxBlocks: number;
+
+  // Property categories searched by the coordinator
+  categories: PropertyCategory[];
+
+  // Search pagination (0 = every page reported by the search results)
+  maxPagesPerCity: number;
+  cityMaxPages: Record<string, number>;
+
+  // Search sharding (split searches above the portal's result cap)
+  searchResultCap: number;
+  shardDimensions: Array<'price' | 'surface' | 'typology' | 'zone'>;
+  shardTypologies: string[];
+  shardZones: Record<string, string[]>;
+
+  // Discovery targets (comuni registry selectors, see ./geography) and
+  // campaign filters (immobiliare query parameters, see ./search-spec)
+  discoveryTargets: string;
+  discoveryFilters: string;
+
+  // Geo discovery (map tiles around MAJOR_CITIES_COORDS)
+  geoAreas: string[];
+  geoRadiusKm: number;
+  geoTileKm: number;
+  geoMaxTileDepth: number;
 
   // Rate limiting
   maxConcurrentWorkers: number;
   minDelayMs: number;
   maxDelayMs: number;
+
+  // Queue backend (redis = distributed, memory = single process, no Redis)
+  queueBackend: 'redis' | 'memory';
+
+  // Queue leases (visibility timeout for popped listing IDs)
+  leaseTimeoutMs: number;
+  leaseReapIntervalMs: number;
+
+  // Retries (exponential backoff)
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  retryJitterRatio: number;
+
+  // Queue epochs (one per coordinator run)
+  epochRetention: number;
+
+  // Priority lanes
+  laneWeights: Record<'new' | 'high_change' | 'refresh' | 'verify', number>;
+  highChangeRateThreshold: number;
+
+  // Search-list summaries (known listings with an unchanged summary skip the detail fetch)
+  summaryMaxAgeDays: number;
+
+  // Run accounting (running runs without activity fail, draining runs time out)
+  runStaleAfterMinutes: number;
+  runDrainTimeoutHours: number;
+
+  // Queue segments (transaction type, optionally city)
+  segmentByCity: boolean;
+  workerSegments: string[];
+
+  // Change counter rollups
+  changeStatsHourlyRetentionHours: number;
+  changeStatsDailyRetentionDays: number;
+
+  // Lifecycle event stream
+  eventStreamMaxLen: number;
+
+  // Worker registry
+  workerHeartbeatMs: number;
+  workerStaleAfterMs: number;
+
+  // Cluster-wide rate limits (requests per minute, 0 = unlimited)
+  rateLimitsPerMinute: Record<'detail_html' | 'detail_browser' | 'verifier_head' | 'search_page', number>;
+  rateLimitBurst: number;
+
+  // Scheduler daemon (cron expressions, empty = job disabled)
+  scheduleTimezone: string;
+  scheduleDiscovery: string;
+  scheduleDiscoveryMode: 'city' | 'adaptive' | 'geo';
+  scheduleVerifier: string;
+  scheduleRefresh: string;
+  scheduleQuietHours: string;
+  scheduleHealth: string;    // scraper_health snapshots (not a job: no run, no quiet hours)
+}
+
+/**
+ * Parse lane weights from "lane:weight,lane:weight" (missing lanes get 1)
+ */
+function parseLaneWeights(value: string): ImmobiliareConfig['laneWeights'] {
+  const weights = { new: 1, high_change: 1, refresh: 1, verify: 1 };
+  for (const pair of value.split(',')) {
+    const [lane, weight] = pair.split(':').map(part => part.trim());
+    if (lane in weights && weight) {
+      weights[lane as keyof typeof weights] = parseFloat(weight);
+    }
+  }
+  return weights;
+}
+
+/**
+ * Parse the category list (unknown categories are a configuration error)
+ */
+function parseCategories(value: string): PropertyCategory[] {
+  const categories = value.split(',').map(s => s.trim()).filter(Boolean);
+  const unknown = categories.filter(category => !PROPERTY_CATEGORIES.includes(category as PropertyCategory));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown categories in CATEGORIES: ${unknown.join(', ')} (expected ${PROPERTY_CATEGORIES.join(', ')})`);
+  }
+  return categories.length > 0 ? categories as PropertyCategory[] : [DEFAULT_CATEGORY];
+}
+
+/**
+ * Parse per-city page caps ("milano:20,roma:10")
+ */
+function parseCityMaxPages(value: string): Record<string, number> {
+  const caps: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [city, pages] = pair.split(':').map(part => part.trim());
+    if (city && pages) {
+      caps[city.toLowerCase()] = parseInt(pages);
+    }
+  }
+  return caps;
+}
+
+/**
+ * Parse per-city zone IDs ("milano=10046|10047;roma=10259")
+ */
+function parseShardZones(value: string): Record<string, string[]> {
+  const zones: Record<string, string[]> = {};
+  for (const entry of value.split(';')) {
+    const [city, ids] = entry.split('=').map(part => part.trim());
+    if (city && ids) {
+      zones[city.toLowerCase()] = ids.split('|').map(id => id.trim()).filter(Boolean);
+    }
+  }
+  return zones;
 }
 
 export const config: ImmobiliareConfig = {
@@ -62,14 +217,110 @@ export const config: ImmobiliareConfig = {
   proxyServer: process.env.PROXY_SERVER,
   proxyUsername: process.env.PROXY_USERNAME,
   proxyPassword: process.env.PROXY_PASSWORD,
+  // Username template with {session}, e.g. "user-session-{session}" (sticky session per context)
+  proxySessionUsername: process.env.PROXY_SESSION_USERNAME,
+
+  // Coordinator browser contexts and cities searched at once (default: one per context)
+  browserContexts: parseInt(process.env.BROWSER_CONTEXTS || '1'),
+  discoveryConcurrency: parseInt(process.env.DISCOVERY_CONCURRENCY || process.env.BROWSER_CONTEXTS || '1'),
+  browserContextCooldownMs: parseInt(process.env.BROWSER_CONTEXT_COOLDOWN_MS || '120000'),
+  browserContextMaxBlocks: parseInt(process.env.BROWSER_CONTEXT_MAX_BLOCKS || '3'),
+
+  // Property categories ("residenziale,uffici,negozi,capannoni,terreni,box,palazzi")
+  categories: parseCategories(process.env.CATEGORIES || DEFAULT_CATEGORY),
+
+  // Search pagination (CITY_MAX_PAGES overrides MAX_PAGES_PER_CITY per city)
+  maxPagesPerCity: parseInt(process.env.MAX_PAGES_PER_CITY || '0'),
+  cityMaxPages: parseCityMaxPages(process.env.CITY_MAX_PAGES || ''),
+
+  // Search sharding (typologies = idTipologia values, zones = idMZona values per city)
+  searchResultCap: parseInt(process.env.SEARCH_RESULT_CAP || '2000'),
+  shardDimensions: (process.env.SHARD_DIMENSIONS || 'price,surface,typology,zone')
+    .split(',').map(s => s.trim()).filter(Boolean) as ImmobiliareConfig['shardDimensions'],
+  shardTypologies: (process.env.SHARD_TYPOLOGIES || '').split(',').map(s => s.trim()).filter(Boolean),
+  shardZones: parseShardZones(process.env.SHARD_ZONES || ''),
+
+  // Discovery targets ("region:lombardia", "capoluoghi", "all"; empty = ITALIAN_CITIES)
+  discoveryTargets: process.env.DISCOVERY_TARGETS || '',
+  // Campaign filters ("prezzoMassimo=300000&localiMinimo=3&noAste=1"; empty = none)
+  discoveryFilters: process.env.DISCOVERY_FILTERS || '',
+
+  // Geo discovery (empty GEO_AREAS = every city in MAJOR_CITIES_COORDS;
+  // other comuni are centred on their registry centroid)
+  geoAreas: (process.env.GEO_AREAS || '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean),
+  geoRadiusKm: parseFloat(process.env.GEO_RADIUS_KM || '15'),
+  geoTileKm: parseFloat(process.env.GEO_TILE_KM || '5'),
+  geoMaxTileDepth: parseInt(process.env.GEO_MAX_TILE_DEPTH || '4'),
 
   // Rate limiting
   maxConcurrentWorkers: parseInt(process.env.MAX_CONCURRENT_WORKERS || '3'),
   minDelayMs: parseInt(process.env.MIN_DELAY_MS || '3000'),
   maxDelayMs: parseInt(process.env.MAX_DELAY_MS || '5000'),
+
+  // Queue backend (also selects the rate limiter)
+  queueBackend: (process.env.QUEUE_BACKEND || 'redis') as 'redis' | 'memory',
+
+  // Queue leases
+  leaseTimeoutMs: parseInt(process.env.LEASE_TIMEOUT_MS || '300000'),
+  leaseReapIntervalMs: parseInt(process.env.LEASE_REAP_INTERVAL_MS || '30000'),
+
+  // Retries
+  maxRetries: parseInt(process.env.MAX_RETRIES || '3'),
+  retryBaseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || '30000'),
+  retryMaxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || '1800000'),
+  retryJitterRatio: parseFloat(process.env.RETRY_JITTER_RATIO || '0.2'),
+
+  // Queue epochs
+  epochRetention: parseInt(process.env.EPOCH_RETENTION || '3'),
+
+  // Priority lanes ("lane:weight,...")
+  laneWeights: parseLaneWeights(process.env.LANE_WEIGHTS || 'new:8,high_change:4,refresh:2,verify:1'),
+  highChangeRateThreshold: parseFloat(process.env.HIGH_CHANGE_RATE_THRESHOLD || '0.15'),
+
+  // Days an unchanged summary may skip the detail fetch (0 = always fetch)
+  summaryMaxAgeDays: parseFloat(process.env.SUMMARY_MAX_AGE_DAYS || '7'),
+
+  // Run accounting: a running run with no activity for this long is marked
+  // failed; a draining run is finalized after this long even if IDs are left
+  runStaleAfterMinutes: parseInt(process.env.RUN_STALE_AFTER_MINUTES || '60'),
+  runDrainTimeoutHours: parseFloat(process.env.RUN_DRAIN_TIMEOUT_HOURS || '24'),
+
+  // Queue segments ("sale" = all sale segments, "rent:milano" = one city, "*" = all)
+  segmentByCity: process.env.SEGMENT_BY_CITY === 'true',
+  workerSegments: (process.env.WORKER_SEGMENTS || '*').split(',').map(s => s.trim()).filter(Boolean),
+
+  // Change counter rollups
+  changeStatsHourlyRetentionHours: parseInt(process.env.CHANGE_STATS_HOURLY_RETENTION_HOURS || '72'),
+  changeStatsDailyRetentionDays: parseInt(process.env.CHANGE_STATS_DAILY_RETENTION_DAYS || '90'),
+
+  // Lifecycle event stream (approximate cap on stored events)
+  eventStreamMaxLen: parseInt(process.env.EVENT_STREAM_MAX_LEN || '1000000'),
+
+  // Worker registry
+  workerHeartbeatMs: parseInt(process.env.WORKER_HEARTBEAT_MS || '15000'),
+  workerStaleAfterMs: parseInt(process.env.WORKER_STALE_AFTER_MS || '90000'),
+
+  // Cluster-wide rate limits
+  rateLimitsPerMinute: {
+    detail_html: parseInt(process.env.RATE_LIMIT_DETAIL_HTML_PER_MIN || '60'),
+    detail_browser: parseInt(process.env.RATE_LIMIT_DETAIL_BROWSER_PER_MIN || '10'),
+    verifier_head: parseInt(process.env.RATE_LIMIT_VERIFIER_HEAD_PER_MIN || '60'),
+    search_page: parseInt(process.env.RATE_LIMIT_SEARCH_PAGE_PER_MIN || '10'),
+  },
+  rateLimitBurst: parseInt(process.env.RATE_LIMIT_BURST || '3'),
+
+  // Scheduler daemon ("minute hour day month weekday" in SCHEDULE_TIMEZONE;
+  // quiet hours "23:00-06:00,13:00-14:00" skip triggers)
+  scheduleTimezone: process.env.SCHEDULE_TIMEZONE || 'Europe/Rome',
+  scheduleDiscovery: process.env.SCHEDULE_DISCOVERY ?? '0 3 * * *',
+  scheduleDiscoveryMode: (process.env.SCHEDULE_DISCOVERY_MODE || 'adaptive') as 'city' | 'adaptive' | 'geo',
+  scheduleVerifier: process.env.SCHEDULE_VERIFIER ?? '0 9 * * *',
+  scheduleRefresh: process.env.SCHEDULE_REFRESH ?? '0 */6 * * *',
+  scheduleQuietHours: process.env.SCHEDULE_QUIET_HOURS || '',
+  scheduleHealth: process.env.SCHEDULE_HEALTH ?? '*/5 * * * *',
 };
 
-// Italian cities for scraping
+// Default discovery targets (slugs of the comuni registry, see ./geography)
 export const ITALIAN_CITIES = [
   'milano',
   'roma',
@@ -105,7 +356,7 @@ export const ITALIAN_CITIES = [
   'latina',
   'vicenza',
   'terni',
-  'forlì',
+  'forli',
   'trento',
   'novara',
   'piacenza',
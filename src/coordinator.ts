@@ -2,124 +2,166 @@
  * Immobiliare.it Coordinator - Phase 1: Listing Discovery
  *
  * Discovers all listing IDs from search pages and pushes them to Redis queue.
- * Uses stealth Playwright to bypass DataDome protection.
+ * Walks every result page reported by the search (MAX_PAGES_PER_CITY /
+ * CITY_MAX_PAGES cap it) and records expected vs actual counts per city.
+ * Searches over the portal's result cap are split into shards.
+ * Every category in CATEGORIES is searched; IDs are tagged with it.
+ * Adaptive mode scrapes only the areas due in geographic_areas and
+ * reschedules each one from how much of it changed once the run completes.
+ * Geo mode searches map tiles around MAJOR_CITIES_COORDS (hinterland comuni,
+ * listings missed by city-slug searches) and stores each tile's results.
+ * City and adaptive modes search DISCOVERY_TARGETS (or --targets): comuni
+ * registry selectors such as "region:lombardia" or "capoluoghi" (see
+ * ./geography); the default is ITALIAN_CITIES. DISCOVERY_FILTERS (or
+ * --filters) narrows every search of a campaign with immobiliare query
+ * parameters (see ./search-spec).
+ * Known listings whose search-list summary (price, surface, rooms, photos)
+ * is unchanged skip the detail fetch.
+ * A checkpoint is saved after every result page; --resume reopens the last
+ * unfinished run and continues from it.
+ * A finished run drains: workers count their results on it and it completes
+ * when the last ID it queued is processed (see ./runs).
+ * Uses stealth Playwright to bypass DataDome protection: DISCOVERY_CONCURRENCY
+ * cities are searched at once over a pool of browser contexts, each with its
+ * own proxy session and stealth profile (see ./browser-pool).
  *
  * Usage:
  *   npm run coordinator
+ *   npm run coordinator:adaptive
+ *   npm run coordinator:geo
+ *   npm run coordinator -- --resume
+ *   npm run coordinator -- --targets region:lombardia
+ *   npm run coordinator -- --filters "prezzoMassimo=300000&localiMinimo=3"
  */
 
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import { config, ITALIAN_CITIES } from './config';
+import type { Page, Response } from 'playwright';
+import { config, ITALIAN_CITIES, MAJOR_CITIES_COORDS, CityCoords, PropertyCategory, DEFAULT_CATEGORY } from './config';
 import { createLogger } from './logger';
-import { randomDelay } from './utils';
-import { RedisQueue } from './redis-queue';
-import { ScraperDatabase } from './database';
-import { applyStealthConfig, applyPageStealth } from './stealth';
+import { randomDelay, runConcurrently } from './utils';
+import { QueueBackend, segmentOf } from './queue-backend';
+import { createQueue } from './queue';
+import { RateLimiter, createRateLimiter } from './rate-limiter';
+import { EventPublisher, createEventPublisher } from './events';
+import { ScraperStore, createScraperStore } from './database';
+import { finishQueueing, sweepRuns } from './runs';
+import { findComune, resolveTargets } from './geography';
+import { SearchFilters, SearchSpec, buildSearchUrl, parseSearchFilters, hasFilters, filtersQuery } from './search-spec';
+import { BrowserContextPool } from './browser-pool';
+import {
+  SearchShard,
+  SearchCheckpoint,
+  checkpointKey,
+  rootShard,
+  isRootShard,
+  splitShard,
+  describeShard,
+  applyShardFilters,
+  splitValues,
+} from './search-shards';
+import { GeoTile, tileArea, splitTile, tileToVertices, describeTile } from './geo-tiles';
+import { extractListingSummary, summaryFingerprint } from './listing-summaries';
 
 const logger = createLogger('Coordinator');
 
 const BASE_URL = 'https://www.immobiliare.it';
 const API_ENDPOINT = '/api-next/search-list/listings/';
 
-export class ImmobiliareCoordinator {
-  private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
-  private page: Page | null = null;
-  private queue: RedisQueue;
-  private db: ScraperDatabase;
-  private interceptedIds: Set<string> = new Set();
+/**
+ * City slugs of a discovery target spec (empty = ITALIAN_CITIES)
+ */
+export function discoveryCities(spec: string = config.discoveryTargets): string[] {
+  return spec.trim() ? resolveTargets(spec).map(comune => comune.slug) : ITALIAN_CITIES;
+}
 
-  constructor() {
-    this.queue = new RedisQueue('immobiliare');
-    this.db = new ScraperDatabase();
-  }
+/**
+ * Run note of a campaign's filters (undefined = unfiltered)
+ */
+function filtersNote(filters: SearchFilters): string | undefined {
+  return hasFilters(filters) ? `Filters: ${filtersQuery(filters)}` : undefined;
+}
 
-  async initialize() {
-    await this.queue.initialize();
-    await this.db.initialize();
-    await this.initializeBrowser();
-    logger.info('Coordinator initialized');
-  }
+/**
+ * Centre of a geo area: MAJOR_CITIES_COORDS, else the comune's registry centroid
+ */
+function areaCenter(name: string): CityCoords | undefined {
+  if (MAJOR_CITIES_COORDS[name]) return MAJOR_CITIES_COORDS[name];
+  const comune = findComune(name);
+  if (!comune || comune.lat === null || comune.lng === null) return undefined;
+  return { lat: comune.lat, lng: comune.lng, name: comune.name };
+}
 
-  /**
-   * Initialize Playwright browser with stealth settings
-   */
-  private async initializeBrowser(): Promise<void> {
-    logger.info('Initializing stealth Playwright browser...');
-
-    const launchOptions: Parameters<typeof chromium.launch>[0] = {
-      headless: config.headless,
-      args: [
-        '--disable-blink-features=AutomationControlled',
-        '--disable-features=IsolateOrigins,site-per-process',
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-      ],
-    };
+/**
+ * Result totals reported by the search (null = not reported)
+ */
+interface SearchTotals {
+  totalResults: number | null;
+  totalPages: number | null;
+  resultsLimitReached: boolean;
+}
 
-    // Add proxy if configured
-    if (config.proxyServer) {
-      launchOptions.proxy = {
-        server: config.proxyServer,
-        username: config.proxyUsername,
-        password: config.proxyPassword,
-      };
-      logger.info(`Using proxy: ${config.proxyServer}`);
-    } else {
-      logger.warn('No proxy configured - DataDome may block datacenter IPs');
-    }
+interface SearchPageResult extends SearchTotals {
+  ids: string[];
+}
 
-    this.browser = await chromium.launch(launchOptions);
-
-    // Create context with stealth settings
-    this.context = await this.browser.newContext({
-      viewport: { width: 1920, height: 1080 },
-      userAgent:
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36',
-      locale: 'it-IT',
-      timezoneId: 'Europe/Rome',
-      geolocation: { latitude: 45.4642, longitude: 9.19 }, // Milano
-      permissions: ['geolocation'],
-    });
+export interface CityScrapeResult {
+  ids: string[];
+  newCount: number;
+}
 
-    await applyStealthConfig(this.context);
-    this.page = await this.context.newPage();
-    await applyPageStealth(this.page);
+/**
+ * Totals of a search reported on its first page (and carried over when a
+ * walk resumes at a later page)
+ */
+interface WalkTotals {
+  expected: number | null;
+  totalPages: number | null;
+  oversized: boolean;
+}
 
-    logger.info('Browser initialized with stealth settings');
-  }
+/**
+ * Unfinished run being resumed
+ */
+interface ResumeState {
+  scraped: Set<string>; // city/category pairs completed before the crash
+  checkpoints: Map<string, SearchCheckpoint>; // by checkpointKey, searches in progress at the crash
+}
+
+export class ImmobiliareCoordinator {
+  private pool: BrowserContextPool;
+  private queue: QueueBackend;
+  private db: ScraperStore;
+  private rateLimiter: RateLimiter;
+  private events: EventPublisher;
+  private listingSummaries: Map<string, string> = new Map(); // ID -> summary fingerprint, until pushed
+  private runId: number | undefined;
+  private resumeState: ResumeState | null = null;
+  private triggeredBy: string | undefined;
 
   /**
-   * Setup API interception to capture listing IDs
+   * triggeredBy names the scheduler job the runs are recorded under
    */
-  private setupApiInterception(): void {
-    if (!this.page) {
-      throw new Error('Browser not initialized');
-    }
-
-    this.interceptedIds.clear();
-
-    this.page.on('response', async (response) => {
-      const url = response.url();
-
-      // Check if this is the listings API endpoint
-      if (url.includes(API_ENDPOINT)) {
-        try {
-          const status = response.status();
-          if (status === 200) {
-            const responseData = await response.json();
-
-            // Extract listing IDs from API response
-            const ids = this.extractListingIds(responseData);
-            ids.forEach(id => this.interceptedIds.add(id));
+  constructor(
+    deps: {
+      queue?: QueueBackend;
+      db?: ScraperStore;
+      rateLimiter?: RateLimiter;
+      events?: EventPublisher;
+      triggeredBy?: string;
+    } = {}
+  ) {
+    this.triggeredBy = deps.triggeredBy;
+    this.queue = deps.queue || createQueue('immobiliare');
+    this.db = deps.db || createScraperStore();
+    this.rateLimiter = deps.rateLimiter || createRateLimiter('immobiliare');
+    this.events = deps.events || createEventPublisher('immobiliare');
+    this.pool = new BrowserContextPool();
+  }
 
-            logger.debug(`Captured ${ids.length} listing IDs from API`);
-          }
-        } catch (error) {
-          logger.error(`Failed to parse API response:`, error);
-        }
-      }
-    });
+  async initialize() {
+    await this.queue.initialize();
+    await this.db.initialize();
+    await this.pool.initialize();
+    logger.info('Coordinator initialized');
   }
 
   /**
@@ -144,6 +186,7 @@ export class ImmobiliareCoordinator {
       const id = listing.realEstate?.id || listing.id;
       if (id) {
         ids.push(String(id));
+        this.listingSummaries.set(String(id), summaryFingerprint(extractListingSummary(listing)));
       }
     }
 
@@ -151,30 +194,97 @@ export class ImmobiliareCoordinator {
   }
 
   /**
-   * Build search URL for a city and transaction type
+   * Extract result totals from a search response
+   * (count/maxPages in the search-list API, also embedded in __NEXT_DATA__)
+   */
+  private extractSearchTotals(data: any): SearchTotals {
+    const toCount = (value: unknown): number | null => {
+      if (value === null || value === undefined) return null;
+      const count = typeof value === 'string' ? parseInt(value.replace(/\D/g, ''), 10) : Number(value);
+      return Number.isFinite(count) && count >= 0 ? count : null;
+    };
+
+    return {
+      totalResults: toCount(data?.count ?? data?.totalAds ?? data?.total),
+      totalPages: toCount(data?.maxPages ?? data?.totalPages),
+      resultsLimitReached: data?.isResultsLimitReached === true,
+    };
+  }
+
+  /**
+   * Fill totals not known yet from another source
    */
-  private buildSearchUrl(city: string, transactionType: 'sale' | 'rent'): string {
-    const type = transactionType === 'sale' ? 'vendita' : 'affitto';
-    return `${BASE_URL}/${type}/residenziale/${city.toLowerCase()}/`;
+  private mergeTotals(target: SearchTotals, source: SearchTotals): void {
+    if (target.totalResults === null) target.totalResults = source.totalResults;
+    if (target.totalPages === null) target.totalPages = source.totalPages;
+    target.resultsLimitReached = target.resultsLimitReached || source.resultsLimitReached;
   }
 
   /**
-   * Scrape a single page and extract listing IDs
+   * Search URL for a city, transaction type, category, filters, shard and
+   * result page (residential: /vendita/residenziale/<city>/, others:
+   * /vendita-uffici/<city>/; shard bounds replace the filters' own)
    */
-  private async scrapePage(url: string, pageNumber: number = 1): Promise<string[]> {
-    if (!this.page) {
-      throw new Error('Browser not initialized');
+  private searchPageUrl(
+    city: string,
+    transactionType: 'sale' | 'rent',
+    category: PropertyCategory = DEFAULT_CATEGORY,
+    shard: SearchShard = rootShard(),
+    page: number = 1,
+    filters: SearchFilters = {}
+  ): string {
+    const url = new URL(buildSearchUrl({ ...filters, city, transactionType, category, page: undefined }));
+    applyShardFilters(url, shard);
+    if (page > 1) {
+      url.searchParams.set('pag', String(page));
     }
+    return url.toString();
+  }
 
+  /**
+   * Scrape a single page and extract listing IDs and result totals
+   * (on a free browser context; a blocked page is retried on another one)
+   */
+  private async scrapePage(url: string, pageNumber: number = 1): Promise<SearchPageResult> {
     logger.info(`Scraping page ${pageNumber}: ${url}`);
 
-    // Clear previous intercepted IDs
-    this.interceptedIds.clear();
-    this.setupApiInterception();
+    try {
+      return await this.pool.run(page => this.loadSearchPage(page, url));
+    } catch (error) {
+      logger.error(`Error scraping page ${pageNumber}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a search page on a context's page, capturing listing IDs and
+   * result totals from its API calls (or __NEXT_DATA__ if none were intercepted)
+   */
+  private async loadSearchPage(page: Page, url: string): Promise<SearchPageResult> {
+    const interceptedIds = new Set<string>();
+    const interceptedTotals: SearchTotals = { totalResults: null, totalPages: null, resultsLimitReached: false };
+    const onResponse = async (response: Response) => {
+      // Check if this is the listings API endpoint
+      if (!response.url().includes(API_ENDPOINT) || response.status() !== 200) return;
+      try {
+        const responseData = await response.json();
+
+        // Extract listing IDs from API response
+        const ids = this.extractListingIds(responseData);
+        ids.forEach(id => interceptedIds.add(id));
+        this.mergeTotals(interceptedTotals, this.extractSearchTotals(responseData));
+
+        logger.debug(`Captured ${ids.length} listing IDs from API`);
+      } catch (error) {
+        logger.error(`Failed to parse API response:`, error);
+      }
+    };
 
+    page.on('response', onResponse);
     try {
-      // Navigate to the page
-      const response = await this.page.goto(url, {
+      // Navigate to the page (shared budget across all coordinators)
+      await this.rateLimiter.acquire('search_page');
+      const response = await page.goto(url, {
         waitUntil: 'networkidle',
         timeout: 60000,
       });
@@ -187,7 +297,7 @@ export class ImmobiliareCoordinator {
       logger.info(`Page loaded with status: ${status}`);
 
       // Check for DataDome challenge
-      const title = await this.page.title();
+      const title = await page.title();
       if (title.includes('DataDome') || status === 403) {
         logger.error('DataDome protection detected!');
         throw new Error('DataDome challenge detected - need better proxy');
@@ -197,27 +307,33 @@ export class ImmobiliareCoordinator {
       await randomDelay(2000, 4000);
 
       // Try to extract from __NEXT_DATA__ if no API calls intercepted
-      if (this.interceptedIds.size === 0) {
-        logger.warn('No API calls intercepted, trying __NEXT_DATA__...');
-        const nextDataIds = await this.extractFromNextData();
-        nextDataIds.forEach(id => this.interceptedIds.add(id));
+      // (or the API response did not report totals)
+      const totals = { ...interceptedTotals };
+      if (interceptedIds.size === 0 || totals.totalResults === null) {
+        if (interceptedIds.size === 0) {
+          logger.warn('No API calls intercepted, trying __NEXT_DATA__...');
+        }
+        const nextData = await this.extractFromNextData(page);
+        if (interceptedIds.size === 0) {
+          nextData.ids.forEach(id => interceptedIds.add(id));
+        }
+        this.mergeTotals(totals, nextData);
       }
 
-      return Array.from(this.interceptedIds);
-    } catch (error) {
-      logger.error(`Error scraping page ${pageNumber}:`, error);
-      throw error;
+      return { ids: Array.from(interceptedIds), ...totals };
+    } finally {
+      page.off('response', onResponse);
     }
   }
 
   /**
-   * Extract listing IDs from __NEXT_DATA__ script tag
+   * Extract listing IDs and result totals from __NEXT_DATA__ script tag
    */
-  private async extractFromNextData(): Promise<string[]> {
-    if (!this.page) return [];
+  private async extractFromNextData(page: Page): Promise<SearchPageResult> {
+    const result: SearchPageResult = { ids: [], totalResults: null, totalPages: null, resultsLimitReached: false };
 
     try {
-      const nextData = await this.page.evaluate(() => {
+      const nextData = await page.evaluate(() => {
         const scriptEl = document.getElementById('__NEXT_DATA__');
         if (scriptEl) {
           return scriptEl.textContent;
@@ -227,113 +343,692 @@ export class ImmobiliareCoordinator {
 
       if (nextData) {
         const parsed = JSON.parse(nextData);
-        const listings = parsed?.props?.pageProps?.listings;
+        const pageProps = parsed?.props?.pageProps;
+        const listings = pageProps?.listings;
         if (listings) {
-          return this.extractListingIds(listings);
+          result.ids = this.extractListingIds(listings);
+        }
+
+        // Totals sit next to the listings or in the dehydrated search query
+        for (const candidate of [listings, pageProps, pageProps?.dehydratedState?.queries?.[0]?.state?.data]) {
+          if (candidate && !Array.isArray(candidate)) {
+            this.mergeTotals(result, this.extractSearchTotals(candidate));
+          }
         }
       }
     } catch (error) {
       logger.error('Failed to extract from __NEXT_DATA__:', error);
     }
 
-    return [];
+    return result;
+  }
+
+  /**
+   * Queue segment of a city (per city only when SEGMENT_BY_CITY is set)
+   */
+  private segmentFor(city: string, transactionType: 'sale' | 'rent'): string {
+    return segmentOf(transactionType, config.segmentByCity ? city : undefined);
+  }
+
+  /**
+   * Build map search URL for a tile (polygon search over its bounding box)
+   */
+  private buildMapSearchUrl(tile: GeoTile, transactionType: 'sale' | 'rent', page: number = 1): string {
+    const url = new URL(`${BASE_URL}/search-list/`);
+    url.searchParams.set('idContratto', transactionType === 'sale' ? '1' : '2');
+    url.searchParams.set('idCategoria', '1'); // Residenziale
+    url.searchParams.set('vrt', tileToVertices(tile));
+    if (page > 1) {
+      url.searchParams.set('pag', String(page));
+    }
+    return url.toString();
+  }
+
+  /**
+   * Page cap of a city (0 = no cap)
+   */
+  private pageCapFor(city: string): number {
+    return config.cityMaxPages[city.toLowerCase()] ?? config.maxPagesPerCity;
+  }
+
+  /**
+   * Walk the result pages of one search (a shard or map tile), adding IDs to seenIds
+   * Stops after the first page when the search is over the result cap and
+   * stopIfOversized is set (the caller splits it instead).
+   * from resumes the walk at a later page; onPage runs after every page
+   * that found new IDs. A failed page throws: the search did not finish, so
+   * the caller must not record it as scraped.
+   */
+  private async walkSearch(
+    label: string,
+    urlForPage: (page: number) => string,
+    seenIds: Set<string>,
+    maxPages: number,
+    stopIfOversized: boolean,
+    options: {
+      from?: { page: number; expected: number | null; totalPages: number | null };
+      onPage?: (page: number, ids: string[], totals: WalkTotals) => Promise<void>;
+    } = {}
+  ): Promise<{ ids: string[]; expected: number | null; totalPages: number | null; pages: number; oversized: boolean }> {
+    const searchIds = new Set<string>();
+    const startPage = options.from?.page ?? 1;
+    let expected: number | null = options.from?.expected ?? null;
+    let totalPages: number | null = options.from?.totalPages ?? null;
+    let oversized = false;
+    let pages = 0;
+
+    if (startPage > 1) {
+      logger.info(`Resuming ${label} at page ${startPage}`);
+    }
+
+    for (let page = startPage; totalPages === null || page <= totalPages; page++) {
+      if (maxPages > 0 && page - startPage >= maxPages) {
+        logger.info(`Reached page cap for ${label}`);
+        break;
+      }
+
+      const result = await this.scrapePage(urlForPage(page), page);
+
+      if (page === 1) {
+        expected = result.totalResults;
+        totalPages = result.totalPages;
+        const reachable = totalPages !== null ? totalPages * result.ids.length : config.searchResultCap;
+        oversized = result.resultsLimitReached ||
+          (expected !== null && expected > Math.min(reachable, config.searchResultCap));
+        logger.info(
+          `${label}: ${expected ?? '?'} results on ${totalPages ?? '?'} pages` +
+          (oversized ? ' - over the result cap' : '')
+        );
+      }
+
+      if (result.ids.length === 0) {
+        logger.info(`No listings found on page ${page}, stopping...`);
+        break;
+      }
+
+      // Past the last page the portal may repeat results
+      const before = searchIds.size;
+      result.ids.forEach(id => {
+        searchIds.add(id);
+        seenIds.add(id);
+      });
+      pages++;
+      if (searchIds.size === before) {
+        logger.info(`Page ${page} only repeated known IDs, stopping...`);
+        break;
+      }
+      if (options.onPage) {
+        await options.onPage(page, result.ids, { expected, totalPages, oversized });
+      }
+
+      logger.info(
+        `Page ${page}/${totalPages ?? '?'}: Found ${result.ids.length} IDs ` +
+        `(search: ${searchIds.size}${expected !== null ? `/${expected}` : ''}, area: ${seenIds.size})`
+      );
+
+      if (page === 1 && oversized && stopIfOversized) break;
+
+      // Random delay between pages
+      if (totalPages === null || page < totalPages) {
+        await randomDelay(config.minDelayMs, config.maxDelayMs);
+      }
+    }
+
+    return { ids: Array.from(searchIds), expected, totalPages, pages, oversized };
   }
 
   /**
-   * Scrape a single city
+   * Scrape a single city in one category
+   * Searches over the portal's result cap are split into shards (cached per
+   * city and category and reused next run, split further when a shard
+   * outgrows the cap). maxPages caps the pages requested for the whole
+   * city and category (0 = no cap). IDs are pushed and the run's checkpoint
+   * saved after every page; a failed page throws, leaving the checkpoint in
+   * place and the city's counts unrecorded. Filtered searches are sharded within their
+   * filters and do not use or save the cached shard plan.
    */
   async scrapeCity(
     city: string,
     transactionType: 'sale' | 'rent',
-    maxPages: number = 5
-  ): Promise<number> {
+    maxPages: number = this.pageCapFor(city),
+    category: PropertyCategory = DEFAULT_CATEGORY,
+    filters: SearchFilters = {}
+  ): Promise<CityScrapeResult> {
+    const area = `${city}/${category}`;
+    const filtered = hasFilters(filters);
     logger.info(`\n${'='.repeat(60)}`);
-    logger.info(`Scraping ${city} - ${transactionType}`);
+    logger.info(`Scraping ${city} - ${transactionType} - ${category}` + (filtered ? ` (${filtersQuery(filters)})` : ''));
     logger.info(`${'='.repeat(60)}`);
 
-    const allIds: string[] = [];
-    const baseUrl = this.buildSearchUrl(city, transactionType);
+    const seenIds = new Set<string>();
+    const state = this.takeCheckpoint(city, category, transactionType, filters)
+      ?? await this.startSearch(city, category, transactionType, filters);
+    const actualBefore = state.actual;
 
-    for (let page = 1; page <= maxPages; page++) {
-      try {
-        // Add page parameter for pages > 1
-        const url = page === 1 ? baseUrl : `${baseUrl}?pag=${page}`;
-        const ids = await this.scrapePage(url, page);
+    while (state.pending.length > 0) {
+      const shard = state.pending[0];
+      const pagesLeft = maxPages > 0 ? maxPages - state.pages : 0;
+      if (maxPages > 0 && pagesLeft <= 0) {
+        // Keep unvisited shards in the plan
+        logger.info(`Reached page cap (${maxPages}) for ${area}`);
+        state.plan.push(...state.pending.splice(0));
+        break;
+      }
 
-        if (ids.length === 0) {
-          logger.info(`No listings found on page ${page}, stopping...`);
-          break;
+      const children = splitShard(
+        shard,
+        transactionType,
+        splitValues(filters.zones, config.shardZones[city.toLowerCase()]),
+        splitValues(filters.typologies, config.shardTypologies)
+      );
+      const result = await this.walkSearch(
+        `${area} (${describeShard(shard)})`,
+        (page) => this.searchPageUrl(city, transactionType, category, shard, page, filters),
+        seenIds,
+        pagesLeft,
+        children !== null,
+        {
+          from: { page: state.nextPage, expected: state.shardExpected, totalPages: state.shardTotalPages },
+          onPage: async (page, ids, totals) => {
+            const newIds = await this.pushDiscoveredIds(ids, city, transactionType, category);
+            state.newIds += newIds.length;
+            state.pages++;
+            state.actual = actualBefore + seenIds.size;
+            // An oversized first page is split, not continued
+            if (totals.oversized && children) return;
+            state.nextPage = page + 1;
+            state.shardExpected = totals.expected;
+            state.shardTotalPages = totals.totalPages;
+            if (this.runId !== undefined) {
+              await this.db.saveCheckpoint(this.runId, state);
+            }
+          },
         }
+      );
+      state.pending.shift();
+      state.nextPage = 1;
+      state.shardExpected = null;
+      state.shardTotalPages = null;
+      if (isRootShard(shard, filters)) {
+        state.rootExpected = result.expected;
+      }
+
+      if (result.oversized && children) {
+        logger.info(`Splitting ${area} (${describeShard(shard)}) into ${children.length} shards`);
+        state.pending.unshift(...children);
+        state.planChanged = true;
+        continue;
+      }
+      if (result.oversized) {
+        logger.warn(`${area} (${describeShard(shard)}) is over the result cap and cannot be split further`);
+      }
+
+      state.plan.push(shard);
+      if (result.expected !== null) state.shardsExpected = (state.shardsExpected ?? 0) + result.expected;
+      if (result.totalPages !== null) state.totalPages = (state.totalPages ?? 0) + result.totalPages;
+    }
+
+    if (state.planChanged && !filtered) {
+      await this.db.saveShardPlan(city, transactionType, category, state.plan);
+      logger.info(`Saved shard plan for ${area} (${state.plan.length} shards)`);
+    }
+
+    // The unfiltered search also counts listings without price/surface
+    const expected = state.rootExpected ?? state.shardsExpected;
+    const actual = actualBefore + seenIds.size;
+    if (expected !== null && actual < expected) {
+      logger.warn(
+        `${area}: collected ${actual} of ${expected} reported listings ` +
+        `(${((actual / Math.max(expected, 1)) * 100).toFixed(1)}%)`
+      );
+    }
+
+    if (this.runId !== undefined) {
+      await this.db.recordCityCounts(this.runId, city, category, {
+        expected,
+        actual,
+        newIds: state.newIds,
+        pages: state.pages,
+        totalPages: state.totalPages,
+        shards: state.plan.length,
+      });
+    }
+
+    return { ids: Array.from(seenIds), newCount: state.newIds };
+  }
+
+  /**
+   * Fresh search state of a city/category (from its cached shard plan
+   * unless filtered)
+   */
+  private async startSearch(
+    city: string,
+    category: PropertyCategory,
+    transactionType: 'sale' | 'rent',
+    filters: SearchFilters = {}
+  ): Promise<SearchCheckpoint> {
+    const cachedPlan = hasFilters(filters) ? null : await this.db.getShardPlan(city, transactionType, category);
+    if (cachedPlan) {
+      logger.info(`Using cached shard plan for ${city}/${category} (${cachedPlan.length} shards)`);
+    }
+    return {
+      city,
+      category,
+      transactionType,
+      ...(hasFilters(filters) ? { filters: filtersQuery(filters) } : {}),
+      pending: cachedPlan ? [...cachedPlan] : [rootShard(filters)],
+      plan: [],
+      planChanged: !cachedPlan,
+      nextPage: 1,
+      shardExpected: null,
+      shardTotalPages: null,
+      rootExpected: null,
+      shardsExpected: null,
+      totalPages: null,
+      pages: 0,
+      actual: 0,
+      newIds: 0,
+    };
+  }
+
+  /**
+   * Checkpoint of the resumed run if it stopped inside this city/category
+   * search with the same filters (used once)
+   */
+  private takeCheckpoint(
+    city: string,
+    category: PropertyCategory,
+    transactionType: 'sale' | 'rent',
+    filters: SearchFilters = {}
+  ): SearchCheckpoint | null {
+    const key = checkpointKey({ city, category, filters: filtersQuery(filters) });
+    const checkpoint = this.resumeState?.checkpoints.get(key);
+    if (!checkpoint || checkpoint.transactionType !== transactionType) {
+      return null;
+    }
+    this.resumeState!.checkpoints.delete(key);
+    logger.info(
+      `Resuming ${city}/${category} from checkpoint ` +
+      `(${checkpoint.pending.length} shards left, page ${checkpoint.nextPage}, ${checkpoint.actual} IDs so far)`
+    );
+    return checkpoint;
+  }
+
+  /**
+   * Whether the resumed run already completed a city in all these categories
+   */
+  private isScraped(city: string, categories: PropertyCategory[]): boolean {
+    return !!this.resumeState && categories.every(category => this.resumeState!.scraped.has(`${city}/${category}`));
+  }
+
+  /**
+   * Scrape one search spec: its city, transaction type and category with
+   * its filters (every result page is walked, spec.page is ignored)
+   */
+  async scrapeSearch(spec: SearchSpec, maxPages?: number): Promise<CityScrapeResult> {
+    return this.scrapeCity(spec.city, spec.transactionType, maxPages, spec.category ?? DEFAULT_CATEGORY, spec);
+  }
+
+  /**
+   * Scrape a city in every configured category (CATEGORIES)
+   */
+  async scrapeCityCategories(
+    city: string,
+    transactionType: 'sale' | 'rent',
+    maxPages?: number,
+    filters: SearchFilters = {}
+  ): Promise<CityScrapeResult> {
+    const combined: CityScrapeResult = { ids: [], newCount: 0 };
+    for (const category of config.categories) {
+      if (this.isScraped(city, [category])) {
+        logger.info(`Skipping ${city}/${category} (completed before resume)`);
+        continue;
+      }
+      const result = await this.scrapeCity(city, transactionType, maxPages, category, filters);
+      combined.ids.push(...result.ids);
+      combined.newCount += result.newCount;
+    }
+    return combined;
+  }
+
+  /**
+   * Push discovered IDs to the queue segment of a city and publish
+   * discovered events; returns the IDs new to the segment
+   * (known IDs are refreshed once per epoch, frequently changing ones on
+   * the high-change lane)
+   */
+  private async pushDiscoveredIds(
+    ids: string[],
+    city: string,
+    transactionType: 'sale' | 'rent',
+    category: PropertyCategory
+  ): Promise<string[]> {
+    if (ids.length === 0) return [];
+
+    const changeRates = await this.db.getChangeRates(ids);
+    const segment = this.segmentFor(city, transactionType);
+    const newIds = await this.queue.pushListingIds(ids, {
+      segment,
+      category,
+      laneOf: (id) =>
+        (changeRates.get(id) || 0) > config.highChangeRateThreshold ? 'high_change' : 'refresh',
+      summaries: this.listingSummaries,
+    });
+    ids.forEach(id => this.listingSummaries.delete(id));
+    await this.events.publishMany(newIds.map(portalId => ({
+      type: 'discovered' as const,
+      portalId,
+      newValue: { segment, city, transactionType, category },
+      runId: this.runId,
+      source: 'coordinator' as const,
+    })));
+    logger.info(`Pushed ${ids.length} listing IDs to segment ${segment} (${newIds.length} new)`);
+    return newIds;
+  }
+
+  /**
+   * Geo discovery of one area: search every map tile around its centre
+   * (tiles over the result cap are split into quadrants up to
+   * GEO_MAX_TILE_DEPTH) and store each tile's results. IDs new to the
+   * area's segment are listings that city-slug searches did not find.
+   */
+  async scrapeGeoArea(
+    areaName: string,
+    center: CityCoords,
+    transactionType: 'sale' | 'rent'
+  ): Promise<CityScrapeResult> {
+    logger.info(`\n${'='.repeat(60)}`);
+    logger.info(`Geo discovery ${center.name} - ${transactionType}`);
+    logger.info(`${'='.repeat(60)}`);
 
-        allIds.push(...ids);
-        logger.info(`Page ${page}: Found ${ids.length} IDs (total: ${allIds.length})`);
+    const seenIds = new Set<string>();
+    const pending = tileArea(center, config.geoRadiusKm, config.geoTileKm);
+    let newCount = 0;
+    let expected: number | null = null;
+    let pagesScraped = 0;
+    let tiles = 0;
 
-        // Random delay between pages
-        if (page < maxPages) {
-          await randomDelay(config.minDelayMs, config.maxDelayMs);
+    while (pending.length > 0) {
+      const tile = pending.shift()!;
+      const canSplit = tile.depth < config.geoMaxTileDepth;
+      const result = await this.walkSearch(
+        `${areaName} tile ${describeTile(tile)}`,
+        (page) => this.buildMapSearchUrl(tile, transactionType, page),
+        seenIds,
+        0,
+        canSplit
+      );
+      const split = result.oversized && canSplit;
+      const newIds = await this.pushDiscoveredIds(result.ids, areaName, transactionType, DEFAULT_CATEGORY);
+      newCount += newIds.length;
+      pagesScraped += result.pages;
+
+      await this.db.recordGeoTile(this.runId ?? null, areaName, tile, {
+        expectedIds: result.expected,
+        listingIds: result.ids,
+        newIds: newIds.length,
+        pages: result.pages,
+        capped: result.oversized && !canSplit,
+        split,
+      });
+
+      if (split) {
+        pending.unshift(...splitTile(tile));
+      } else {
+        tiles++;
+        if (result.expected !== null) expected = (expected ?? 0) + result.expected;
+        if (result.oversized) {
+          logger.warn(`${areaName} tile ${describeTile(tile)} is over the result cap at max depth`);
         }
-      } catch (error) {
-        logger.error(`Failed to scrape page ${page}:`, error);
-        break;
       }
+
+      await randomDelay(config.minDelayMs, config.maxDelayMs);
+    }
+
+    const allIds = Array.from(seenIds);
+    logger.info(`${areaName}: ${allIds.length} listings in ${tiles} tiles (${newCount} not found by city searches)`);
+    if (this.runId !== undefined) {
+      await this.db.recordCityCounts(this.runId, areaName, DEFAULT_CATEGORY, {
+        expected,
+        actual: allIds.length,
+        newIds: newCount,
+        pages: pagesScraped,
+        totalPages: null,
+        shards: tiles,
+      });
+    }
+
+    return { ids: allIds, newCount };
+  }
+
+  /**
+   * Scrape every target city (default: DISCOVERY_TARGETS) with the
+   * campaign's filters (default: DISCOVERY_FILTERS)
+   * (maxPagesPerCity overrides MAX_PAGES_PER_CITY / CITY_MAX_PAGES)
+   */
+  async scrapeAllCities(
+    maxPagesPerCity?: number,
+    resume: boolean = false,
+    cities: string[] = discoveryCities(),
+    filters: SearchFilters = parseSearchFilters(config.discoveryFilters)
+  ): Promise<void> {
+    await this.runDiscovery(
+      'city',
+      cities.map(city => ({ city, lastScraped: null })),
+      (city) => this.scrapeCityCategories(city, config.transactionType, maxPagesPerCity, filters),
+      false,
+      resume,
+      filtersNote(filters)
+    );
+  }
+
+  /**
+   * Geo mode: map-tile discovery around each city of GEO_AREAS
+   * (default: every city in MAJOR_CITIES_COORDS)
+   */
+  async scrapeGeoAreas(areaNames: string[] = config.geoAreas, resume: boolean = false): Promise<void> {
+    const names = areaNames.length > 0 ? areaNames : Object.keys(MAJOR_CITIES_COORDS);
+    const centers = new Map<string, CityCoords>();
+    for (const name of names) {
+      const center = areaCenter(name);
+      if (center) centers.set(name, center);
+    }
+    const unknown = names.filter(name => !centers.has(name));
+    if (unknown.length > 0) {
+      logger.warn(`No coordinates for ${unknown.join(', ')}, skipping`);
+    }
+
+    await this.runDiscovery(
+      'geo',
+      [...centers.keys()].map(city => ({ city, lastScraped: null })),
+      (city) => this.scrapeGeoArea(city, centers.get(city)!, config.transactionType),
+      false,
+      resume
+    );
+  }
+
+  /**
+   * Adaptive mode: scrape only the cities due in geographic_areas and
+   * reschedule each from what changed when the run completes, i.e. after
+   * workers fetched the details (missing target cities are seeded first).
+   * A filtered campaign sees only part of each city, so it leaves the areas'
+   * change rates and schedules as they are.
+   */
+  async scrapeDueAreas(
+    maxPagesPerCity?: number,
+    resume: boolean = false,
+    cities: string[] = discoveryCities(),
+    filters: SearchFilters = parseSearchFilters(config.discoveryFilters)
+  ): Promise<void> {
+    const seeded = await this.db.seedAreas(cities, 'city');
+    if (seeded > 0) {
+      logger.info(`Seeded ${seeded} cities into geographic_areas`);
     }
 
-    // Push IDs to Redis queue
-    if (allIds.length > 0) {
-      const addedCount = await this.queue.pushListingIds(allIds);
-      logger.info(`Pushed ${addedCount} new listing IDs to queue`);
+    const due = await this.db.getAreasDueForScraping('city', cities);
+    if (due.length === 0) {
+      logger.info('No areas due for scraping');
+      if (this.triggeredBy) {
+        await this.db.recordSkippedRun('city', this.triggeredBy, 'No areas due');
+      }
+      return;
     }
 
-    return allIds.length;
+    logger.info(`${due.length} areas due: ${due.map(area => area.areaName).join(', ')}`);
+    await this.runDiscovery(
+      'city',
+      due.map(area => ({ city: area.areaName, lastScraped: area.lastScraped })),
+      (city) => this.scrapeCityCategories(city, config.transactionType, maxPagesPerCity, filters),
+      !hasFilters(filters),
+      resume,
+      filtersNote(filters)
+    );
   }
 
   /**
-   * Scrape all Italian cities
+   * Discover cities/areas in one run (one epoch per segment)
+   * resume reopens the last unfinished run of the type: completed cities
+   * are skipped and the interrupted search continues from its checkpoint.
+   * notes are recorded on the run when it finishes queueing.
    */
-  async scrapeAllCities(maxPagesPerCity: number = 5): Promise<void> {
-    const runId = await this.db.startScrapeRun('city');
+  private async runDiscovery(
+    runType: 'city' | 'geo',
+    cities: Array<{ city: string; lastScraped: Date | null }>,
+    scrape: (city: string) => Promise<CityScrapeResult>,
+    updateAreas: boolean = false,
+    resume: boolean = false,
+    notes?: string
+  ): Promise<void> {
+    // Fail runs whose process died, complete drained ones
+    await sweepRuns(this.queue, this.db);
+
+    const reopened = resume ? await this.db.reopenScrapeRun(runType) : null;
+    if (resume && !reopened) {
+      logger.warn(`No unfinished ${runType} run to resume, starting a new one`);
+    }
+    const runId = reopened ? reopened.runId : await this.db.startScrapeRun(runType, this.triggeredBy);
+    this.runId = runId;
+    this.resumeState = reopened
+      ? {
+        scraped: new Set(reopened.scraped),
+        checkpoints: new Map(reopened.checkpoints.map(checkpoint => [checkpointKey(checkpoint), checkpoint])),
+      }
+      : null;
+    const categories = runType === 'geo' ? [DEFAULT_CATEGORY] : config.categories;
+    const epochs = new Map<string, Promise<number>>();
+    const incomplete: string[] = [];
     let totalDiscovered = 0;
 
     try {
-      for (const city of ITALIAN_CITIES) {
+      // DISCOVERY_CONCURRENCY cities at once, their pages spread over the browser contexts
+      await runConcurrently(cities, config.discoveryConcurrency, async ({ city, lastScraped }) => {
+        if (this.isScraped(city, categories)) {
+          logger.info(`Skipping ${city} (completed before resume)`);
+          return;
+        }
+        if (this.pool.isExhausted()) {
+          throw new Error('Every browser context is blocked, stopping the run');
+        }
         try {
           logger.info(`\nProcessing city: ${city}`);
-          const count = await this.scrapeCity(city, config.transactionType, maxPagesPerCity);
-          totalDiscovered += count;
+          // Open each segment's epoch once per run (cities of a segment share it)
+          const segment = this.segmentFor(city, config.transactionType);
+          if (!epochs.has(segment)) {
+            epochs.set(segment, this.openRunEpoch(runId, segment).catch(error => {
+              epochs.delete(segment);
+              throw error;
+            }));
+          }
+          await epochs.get(segment);
+          const result = await scrape(city);
+          totalDiscovered += result.ids.length;
+
+          if (updateAreas) {
+            // Rescheduled when the run completes (see runs.ts)
+            await this.db.recordAreaScrape(runId, city, {
+              listingIds: result.ids,
+              newIds: result.newCount,
+              previousScrape: lastScraped,
+            });
+          }
 
           // Delay between cities
           await randomDelay(5000, 8000);
         } catch (error) {
+          // Not recorded as scraped: --resume searches it again from its checkpoint
           logger.error(`Failed to scrape ${city}:`, error);
+          incomplete.push(city);
+          await this.db.incrementRunCounts(runId, { errors: 1 });
           // Continue with next city
         }
+      });
+
+      let queued = 0;
+      let newCount = 0;
+      let skipped = 0;
+      for (const [segment, opening] of epochs) {
+        const epoch = await opening;
+        const epochStats = await this.queue.getEpochStats(epoch, segment);
+        queued += epochStats.queued;
+        newCount += epochStats.newCount;
+        skipped += epochStats.skipped;
       }
 
-      // Complete run
-      await this.db.completeScrapeRun(runId, {
+      // Queueing done (drops its checkpoints); the run completes once drained
+      this.resumeState = null;
+      await finishQueueing(this.queue, this.db, runId, {
         propertiesDiscovered: totalDiscovered,
-        propertiesChanged: 0,
-        propertiesUnchanged: 0,
-        propertiesNew: totalDiscovered,
-        propertiesInactive: 0,
-        errorsCount: 0,
+        detailFetchesSkipped: skipped,
+        notes: [notes, incomplete.length > 0 ? `Incomplete: ${incomplete.join(', ')}` : '']
+          .filter(Boolean).join('; ') || undefined,
       });
+      this.runId = undefined;
 
-      logger.info(`\nCoordinator complete! Discovered ${totalDiscovered} properties`);
+      logger.info(
+        `\nCoordinator complete! Discovered ${totalDiscovered} properties ` +
+        `(${epochs.size} segments: ${queued} queued, ${newCount} new, ` +
+        `${skipped} detail fetches skipped by unchanged summaries)`
+      );
     } catch (error) {
       logger.error('Coordinator error:', error);
+      await this.abortRun(String(error));
       throw error;
     }
   }
 
+  /**
+   * Mark the current run as failed (crash or shutdown; --resume continues it)
+   */
+  async abortRun(reason: string): Promise<void> {
+    if (this.runId === undefined) return;
+    const runId = this.runId;
+    this.runId = undefined;
+    await this.db.failScrapeRun(runId, reason);
+  }
+
+  /**
+   * Open a segment's epoch for a run (a resumed run continues its own epoch,
+   * so IDs it already queued are not queued again)
+   */
+  private async openRunEpoch(runId: number, segment: string): Promise<number> {
+    if (this.resumeState) {
+      const current = await this.queue.getEpochStats(undefined, segment);
+      if (current.runId === runId) {
+        logger.info(`Continuing epoch ${segment}#${current.epoch} of run #${runId}`);
+        return current.epoch;
+      }
+    }
+    return this.queue.openEpoch(runId, segment);
+  }
+
   /**
    * Close browser and connections
    */
   async close(): Promise<void> {
-    if (this.page) await this.page.close();
-    if (this.context) await this.context.close();
-    if (this.browser) await this.browser.close();
+    await this.pool.close();
     await this.queue.close();
+    await this.rateLimiter.close();
+    await this.events.close();
     await this.db.close();
     logger.info('Coordinator closed');
   }
@@ -345,15 +1040,53 @@ async function main() {
   logger.info('='.repeat(60));
   logger.info('Immobiliare.it Coordinator - Phase 1');
   logger.info('='.repeat(60));
+  const adaptive = process.argv.includes('--adaptive');
+  const geo = process.argv.includes('--geo');
+  const resume = process.argv.includes('--resume');
+  const targetsIndex = process.argv.indexOf('--targets');
+  const targets = targetsIndex >= 0 ? process.argv[targetsIndex + 1] ?? '' : config.discoveryTargets;
+  const filtersIndex = process.argv.indexOf('--filters');
+  const filtersArg = filtersIndex >= 0 ? process.argv[filtersIndex + 1] ?? '' : config.discoveryFilters;
+
+  let cities: string[] = [];
+  let filters: SearchFilters = {};
+  try {
+    cities = geo ? [] : discoveryCities(targets);
+    filters = parseSearchFilters(filtersArg);
+  } catch (error) {
+    logger.error(`Invalid targets or filters: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
   logger.info(`Transaction type: ${config.transactionType}`);
-  logger.info(`Cities: ${ITALIAN_CITIES.length}`);
+  if (geo) {
+    logger.info(`Mode: geo (map tiles, ${config.geoRadiusKm} km around each city)`);
+  } else {
+    logger.info(
+      (adaptive ? 'Mode: adaptive (areas due in geographic_areas), ' : '') +
+      `Cities: ${cities.length}` + (targets.trim() ? ` (${targets})` : '')
+    );
+    if (hasFilters(filters)) {
+      logger.info(`Filters: ${filtersQuery(filters)}`);
+    }
+  }
+  if (resume) {
+    logger.info('Resuming the last unfinished run');
+  }
   logger.info('='.repeat(60));
 
   const coordinator = new ImmobiliareCoordinator();
+  activeCoordinator = coordinator;
 
   try {
     await coordinator.initialize();
-    await coordinator.scrapeAllCities(5); // 5 pages per city
+    if (geo) {
+      await coordinator.scrapeGeoAreas(undefined, resume);
+    } else if (adaptive) {
+      await coordinator.scrapeDueAreas(undefined, resume, cities, filters);
+    } else {
+      await coordinator.scrapeAllCities(undefined, resume, cities, filters);
+    }
   } catch (error) {
     logger.error('Fatal error:', error);
     process.exit(1);
@@ -365,16 +1098,23 @@ async function main() {
   process.exit(0);
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('\nReceived SIGINT, shutting down gracefully...');
-  process.exit(0);
-});
+// Handle graceful shutdown (the interrupted run is marked failed; only when
+// run directly, the scheduler handles its own jobs)
+let activeCoordinator: ImmobiliareCoordinator | null = null;
 
-process.on('SIGTERM', async () => {
-  logger.info('\nReceived SIGTERM, shutting down gracefully...');
-  process.exit(0);
-});
+if (require.main === module) {
+  process.on('SIGINT', async () => {
+    logger.info('\nReceived SIGINT, shutting down gracefully...');
+    await activeCoordinator?.abortRun('Interrupted (SIGINT)').catch(() => {});
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', async () => {
+    logger.info('\nReceived SIGTERM, shutting down gracefully...');
+    await activeCoordinator?.abortRun('Interrupted (SIGTERM)').catch(() => {});
+    process.exit(0);
+  });
+}
 
 // Execute
 if (require.main === module) {
@@ -0,0 +1,200 @@
+/**
+ * Cron Expressions for the Scheduler
+ *
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ * evaluated in a time zone (Europe/Rome by default), and quiet-hour windows
+ * ("23:00-06:00") during which scheduled triggers are skipped.
+ * Fields accept *, numbers, ranges (1-5), steps (*\/15, 8-18/2) and lists.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Wall-clock time of an instant in a time zone
+ */
+export interface ZonedTime {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+/** Quiet window in minutes of the day (end exclusive, may wrap past midnight) */
+export interface QuietWindow {
+  start: number;
+  end: number;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+const FIELD_NAMES = ['minute', 'hour', 'day of month', 'month', 'day of week'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Parse one cron field into its matching values
+ */
+function parseField(field: string, index: number, expression: string): Set<number> {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${FIELD_NAMES[index]} "${part}" in cron expression "${expression}"`);
+    }
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+    const from = match[1] === '*' ? min : parseInt(match[2], 10);
+    let to = match[1] === '*' ? max : match[3] ? parseInt(match[3], 10) : from;
+    // "5/15" = from 5 to the end of the range
+    if (match[1] !== '*' && !match[3] && match[4]) to = max;
+    if (from < min || to > max || from > to || step < 1) {
+      throw new Error(`Out of range ${FIELD_NAMES[index]} "${part}" in cron expression "${expression}"`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day month weekday)`);
+  }
+  return {
+    expression: expression.trim(),
+    minutes: parseField(fields[0], 0, expression),
+    hours: parseField(fields[1], 1, expression),
+    daysOfMonth: parseField(fields[2], 2, expression),
+    months: parseField(fields[3], 3, expression),
+    daysOfWeek: parseField(fields[4], 4, expression),
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock time of a date in a time zone
+ */
+export function toZonedTime(date: Date, timeZone: string): ZonedTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Whether a wall-clock minute matches a schedule
+ * (day of month and day of week both restricted = either matches, as in cron)
+ */
+export function matchesCron(schedule: CronSchedule, time: ZonedTime): boolean {
+  if (!schedule.minutes.has(time.minute) || !schedule.hours.has(time.hour) || !schedule.months.has(time.month)) {
+    return false;
+  }
+  const dayOfMonth = schedule.daysOfMonth.has(time.day);
+  const dayOfWeek = schedule.daysOfWeek.has(time.weekday);
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Next minute after a date that matches a schedule (null = none within maxDays)
+ */
+export function nextCronTime(
+  schedule: CronSchedule,
+  after: Date,
+  timeZone: string,
+  maxDays: number = 366
+): Date | null {
+  const start = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+  for (let t = start; t < start + maxDays * 24 * 60 * 60000; t += 60000) {
+    const date = new Date(t);
+    if (matchesCron(schedule, toZonedTime(date, timeZone))) {
+      return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * Key of a wall-clock minute (a minute repeated by a DST change has the same key)
+ */
+export function zonedMinuteKey(time: ZonedTime): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${time.year}-${pad(time.month)}-${pad(time.day)} ${pad(time.hour)}:${pad(time.minute)}`;
+}
+
+/**
+ * Parse quiet-hour windows ("23:00-06:00,13:00-14:00")
+ */
+export function parseQuietHours(value: string): QuietWindow[] {
+  const toMinutes = (clock: string, window: string): number => {
+    const match = clock.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || parseInt(match[1], 10) > 24 || parseInt(match[2], 10) > 59) {
+      throw new Error(`Invalid quiet-hour window "${window}" (expected HH:MM-HH:MM)`);
+    }
+    return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  };
+
+  return value
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean)
+    .map(window => {
+      const [start, end] = window.split('-');
+      if (end === undefined) {
+        throw new Error(`Invalid quiet-hour window "${window}" (expected HH:MM-HH:MM)`);
+      }
+      return { start: toMinutes(start, window), end: toMinutes(end, window) };
+    });
+}
+
+/**
+ * Whether a wall-clock time falls in a quiet window
+ */
+export function isQuietTime(time: ZonedTime, windows: QuietWindow[]): boolean {
+  const minute = time.hour * 60 + time.minute;
+  return windows.some(({ start, end }) =>
+    start <= end ? minute >= start && minute < end : minute >= start || minute < end
+  );
+}
@@ -5,7 +5,11 @@
 
 import { Pool } from 'pg';
 import { createLogger } from './logger';
-import { config } from './config';
+import { config, PropertyCategory } from './config';
+import type { SearchShard, SearchCheckpoint } from './search-shards';
+import type { GeoTile, GeoTileRecord } from './geo-tiles';
+import type { HealthCheck } from './health';
+import { MemoryDatabase } from './memory-database';
 
 const logger = createLogger('Database');
 
@@ -44,55 +48,266 @@ export class ScraperDatabase {
   }
 
   /**
-   * Start a new scrape run
+   * Start a new scrape run (triggeredBy = scheduler job, undefined = manual)
    */
-  async startScrapeRun(runType: 'city' | 'search'): Promise<number> {
+  async startScrapeRun(
+    runType: 'city' | 'search' | 'geo' | 'verify' | 'refresh',
+    triggeredBy?: string
+  ): Promise<number> {
     const result = await this.pool.query(
-      'INSERT INTO scrape_runs (run_type, started_at, status) VALUES ($1, NOW(), $2) RETURNING id',
-      [runType, 'running']
+      'INSERT INTO scrape_runs (run_type, started_at, status, triggered_by) VALUES ($1, NOW(), $2, $3) RETURNING id',
+      [runType, 'running', triggeredBy ?? null]
     );
     this.currentRunId = result.rows[0].id;
-    logger.info(`Started scrape run #${this.currentRunId} (${runType})`);
+    logger.info(`Started scrape run #${this.currentRunId} (${runType}${triggeredBy ? `, ${triggeredBy}` : ''})`);
     return this.currentRunId;
   }
 
   /**
-   * Complete a scrape run
+   * Record a scheduler trigger that did not start a run (quiet hours, overlap)
+   */
+  async recordSkippedRun(
+    runType: 'city' | 'search' | 'geo' | 'verify' | 'refresh',
+    triggeredBy: string,
+    reason: string
+  ): Promise<number> {
+    const result = await this.pool.query(
+      `INSERT INTO scrape_runs (run_type, started_at, completed_at, status, triggered_by, notes)
+       VALUES ($1, NOW(), NOW(), 'skipped', $2, $3) RETURNING id`,
+      [runType, triggeredBy, reason]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Mark a scrape run as failed
+   */
+  async failScrapeRun(runId: number, error: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE scrape_runs SET
+        completed_at = NOW(),
+        status = 'failed',
+        notes = $2,
+        duration_seconds = EXTRACT(EPOCH FROM (NOW() - started_at))
+      WHERE id = $1`,
+      [runId, error]
+    );
+    logger.warn(`Scrape run #${runId} failed: ${error}`);
+  }
+
+  /**
+   * Reopen the latest unfinished scrape run of a type (null = none)
+   * Returns the city/category pairs it already completed (city_counts keys)
+   * and the checkpoints of the searches it had in progress.
+   */
+  async reopenScrapeRun(runType: 'city' | 'search' | 'geo'): Promise<{
+    runId: number;
+    scraped: string[];
+    checkpoints: SearchCheckpoint[];
+  } | null> {
+    const result = await this.pool.query(
+      `UPDATE scrape_runs SET status = 'running', completed_at = NULL
+      WHERE id = (
+        SELECT id FROM scrape_runs
+        WHERE run_type = $1 AND status IN ('running', 'failed')
+        ORDER BY started_at DESC
+        LIMIT 1
+      )
+      RETURNING id, city_counts`,
+      [runType]
+    );
+    if (result.rows.length === 0) return null;
+
+    const runId = result.rows[0].id;
+    const checkpoints = await this.pool.query(
+      'SELECT state FROM discovery_checkpoints WHERE run_id = $1',
+      [runId]
+    );
+    this.currentRunId = runId;
+    logger.info(`Reopened scrape run #${runId} (${runType})`);
+    return {
+      runId,
+      scraped: Object.keys(result.rows[0].city_counts || {}),
+      checkpoints: checkpoints.rows.map(row => row.state),
+    };
+  }
+
+  /**
+   * Save the position of a run in a city/category search with its filters
+   * (replaces the search's previous checkpoint)
+   */
+  async saveCheckpoint(runId: number, checkpoint: SearchCheckpoint): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO discovery_checkpoints (run_id, city, category, filters, transaction_type, next_page, state, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+       ON CONFLICT (run_id, city, category, filters) DO UPDATE SET
+         transaction_type = $5, next_page = $6, state = $7, updated_at = NOW()`,
+      [
+        runId,
+        checkpoint.city,
+        checkpoint.category,
+        checkpoint.filters ?? '',
+        checkpoint.transactionType,
+        checkpoint.nextPage,
+        JSON.stringify(checkpoint),
+      ]
+    );
+  }
+
+  /**
+   * Record expected (reported by the portal), actual and genuinely new ID
+   * counts of a city and category in a scrape run (recording them again
+   * replaces the counts)
+   */
+  async recordCityCounts(
+    runId: number,
+    city: string,
+    category: PropertyCategory,
+    counts: {
+      expected: number | null;
+      actual: number;
+      newIds: number;
+      pages: number;
+      totalPages: number | null;
+      shards: number;
+    }
+  ): Promise<void> {
+    const key = `${city}/${category}`;
+    await this.pool.query(
+      `UPDATE scrape_runs SET
+        expected_ids = expected_ids - COALESCE((city_counts->$2->>'expected')::int, 0) + COALESCE($3::int, 0),
+        actual_ids = actual_ids - COALESCE((city_counts->$2->>'actual')::int, 0) + $4,
+        new_ids = new_ids - COALESCE((city_counts->$2->>'newIds')::int, 0) + $6,
+        city_counts = city_counts || jsonb_build_object($2::text, $5::jsonb),
+        last_activity_at = NOW()
+      WHERE id = $1`,
+      [runId, key, counts.expected, counts.actual, JSON.stringify({ city, category, ...counts }), counts.newIds]
+    );
+  }
+
+  /**
+   * Add detail-fetch and verification results to a scrape run
+   * (counted by the workers and verifier on the run that queued the ID)
+   */
+  async incrementRunCounts(
+    runId: number,
+    counts: Partial<Record<'new' | 'changed' | 'unchanged' | 'inactive' | 'errors', number>>
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE scrape_runs SET
+        properties_new = properties_new + $2,
+        properties_changed = properties_changed + $3,
+        properties_unchanged = properties_unchanged + $4,
+        properties_inactive = properties_inactive + $5,
+        errors_count = errors_count + $6,
+        last_activity_at = NOW()
+      WHERE id = $1`,
+      [
+        runId,
+        counts.new ?? 0,
+        counts.changed ?? 0,
+        counts.unchanged ?? 0,
+        counts.inactive ?? 0,
+        counts.errors ?? 0,
+      ]
+    );
+  }
+
+  /**
+   * Mark a scrape run as done queueing: its results keep coming in until
+   * its queue slice drains (see finalizeScrapeRun)
    */
-  async completeScrapeRun(
+  async markRunDraining(
     runId: number,
     stats: {
       propertiesDiscovered: number;
-      propertiesChanged: number;
-      propertiesUnchanged: number;
-      propertiesNew: number;
-      propertiesInactive: number;
-      errorsCount: number;
+      detailFetchesSkipped?: number;
+      notes?: string;
     }
   ): Promise<void> {
     await this.pool.query(
+      `UPDATE scrape_runs SET
+        status = 'draining',
+        queued_at = NOW(),
+        properties_discovered = $2,
+        detail_fetches_skipped = $3,
+        notes = COALESCE($4, notes),
+        category_counts = COALESCE((
+          SELECT jsonb_object_agg(category, totals) FROM (
+            SELECT
+              COALESCE(value->>'category', 'residenziale') AS category,
+              jsonb_build_object(
+                'expected', SUM(COALESCE((value->>'expected')::int, 0)),
+                'actual', SUM(COALESCE((value->>'actual')::int, 0)),
+                'newIds', SUM(COALESCE((value->>'newIds')::int, 0))
+              ) AS totals
+            FROM jsonb_each(city_counts)
+            GROUP BY 1
+          ) per_category
+        ), '{}')
+      WHERE id = $1`,
+      [runId, stats.propertiesDiscovered, stats.detailFetchesSkipped ?? 0, stats.notes ?? null]
+    );
+    await this.pool.query('DELETE FROM discovery_checkpoints WHERE run_id = $1', [runId]);
+    logger.info(`Scrape run #${runId} queued, draining`);
+  }
+
+  /**
+   * Complete a draining scrape run (false = not draining, e.g. already completed)
+   */
+  async finalizeScrapeRun(runId: number, note?: string): Promise<boolean> {
+    const result = await this.pool.query(
       `UPDATE scrape_runs SET
         completed_at = NOW(),
         status = 'completed',
-        properties_discovered = $2,
-        properties_changed = $3,
-        properties_unchanged = $4,
-        properties_new = $5,
-        properties_inactive = $6,
-        errors_count = $7,
+        notes = CASE WHEN $2::text IS NULL THEN notes ELSE CONCAT_WS('; ', notes, $2::text) END,
         duration_seconds = EXTRACT(EPOCH FROM (NOW() - started_at))
-      WHERE id = $1`,
-      [
-        runId,
-        stats.propertiesDiscovered,
-        stats.propertiesChanged,
-        stats.propertiesUnchanged,
-        stats.propertiesNew,
-        stats.propertiesInactive,
-        stats.errorsCount,
-      ]
+      WHERE id = $1 AND status = 'draining'`,
+      [runId, note ?? null]
     );
+    if (result.rowCount === 0) return false;
     logger.info(`Completed scrape run #${runId}`);
+    return true;
+  }
+
+  /**
+   * Mark running scrape runs without activity (start, city counts, checkpoint
+   * or results) for staleAfterMinutes as failed (their process died)
+   * Returns the failed run IDs
+   */
+  async failStaleRuns(staleAfterMinutes: number): Promise<number[]> {
+    const result = await this.pool.query(
+      `UPDATE scrape_runs r SET
+        completed_at = NOW(),
+        status = 'failed',
+        notes = CONCAT_WS('; ', r.notes, 'No activity for ' || $1::int || ' minutes'),
+        duration_seconds = EXTRACT(EPOCH FROM (NOW() - r.started_at))
+      WHERE r.status = 'running'
+        AND GREATEST(
+          r.started_at,
+          r.last_activity_at,
+          (SELECT MAX(updated_at) FROM discovery_checkpoints c WHERE c.run_id = r.id)
+        ) < NOW() - $1::int * INTERVAL '1 minute'
+      RETURNING r.id`,
+      [staleAfterMinutes]
+    );
+    const runIds = result.rows.map(row => row.id);
+    if (runIds.length > 0) {
+      logger.warn(`Marked stale scrape runs as failed: #${runIds.join(', #')}`);
+    }
+    return runIds;
+  }
+
+  /**
+   * Get draining scrape runs with the time they finished queueing
+   */
+  async getDrainingRuns(): Promise<Array<{ runId: number; queuedAt: Date }>> {
+    const result = await this.pool.query(
+      `SELECT id, COALESCE(queued_at, started_at) AS queued_at FROM scrape_runs
+      WHERE status = 'draining'
+      ORDER BY id`
+    );
+    return result.rows.map(row => ({ runId: row.id, queuedAt: row.queued_at }));
   }
 
   /**
@@ -190,7 +405,8 @@ export class ScraperDatabase {
   }
 
   /**
-   * Update geographic area stats (Italian cities)
+   * Update geographic area stats (Italian cities); the next scrape is
+   * scheduled from scrapedAt
    */
   async updateAreaStats(
     areaName: string,
@@ -200,6 +416,7 @@ export class ScraperDatabase {
       totalProperties: number;
       activeProperties: number;
       avgChangesPerScrape: number;
+      scrapedAt: Date;
     }
   ): Promise<void> {
     // Calculate adaptive scrape interval based on change rate
@@ -220,7 +437,7 @@ export class ScraperDatabase {
       `INSERT INTO geographic_areas
         (area_name, area_type, change_rate, scrape_interval_hours, last_scraped, next_scrape,
          total_properties, active_properties, avg_changes_per_scrape)
-      VALUES ($1, $2, $3, $4, NOW(), NOW() + ($4 || ' hours')::INTERVAL, $5, $6, $7)
+      VALUES ($1, $2, $3, $4, $8::timestamp, $8::timestamp + ($4 || ' hours')::INTERVAL, $5, $6, $7)
       ON CONFLICT (area_name) DO UPDATE SET
         change_rate = EXCLUDED.change_rate,
         scrape_interval_hours = EXCLUDED.scrape_interval_hours,
@@ -238,29 +455,141 @@ export class ScraperDatabase {
         stats.totalProperties,
         stats.activeProperties,
         stats.avgChangesPerScrape,
+        stats.scrapedAt,
       ]
     );
   }
 
   /**
-   * Get areas due for scraping
+   * Record an area scraped by a run (its change rate is computed when the run
+   * completes, see takeAreaScrapes) and push its next scrape out by its
+   * current interval meanwhile
+   */
+  async recordAreaScrape(
+    runId: number,
+    areaName: string,
+    scrape: { listingIds: string[]; newIds: number; previousScrape: Date | null }
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO area_scrapes (run_id, area_name, previous_scrape, scraped_at, listing_ids, new_ids)
+       VALUES ($1, $2, $3, NOW(), $4, $5)
+       ON CONFLICT (run_id, area_name) DO UPDATE SET
+         previous_scrape = EXCLUDED.previous_scrape,
+         scraped_at = EXCLUDED.scraped_at,
+         listing_ids = EXCLUDED.listing_ids,
+         new_ids = EXCLUDED.new_ids`,
+      [runId, areaName, scrape.previousScrape, scrape.listingIds, scrape.newIds]
+    );
+    await this.pool.query(
+      `UPDATE geographic_areas SET
+        last_scraped = NOW(),
+        next_scrape = NOW() + (scrape_interval_hours || ' hours')::INTERVAL,
+        updated_at = NOW()
+      WHERE area_name = $1`,
+      [areaName]
+    );
+  }
+
+  /**
+   * Remove and return the areas a run scraped (on completion)
+   */
+  async takeAreaScrapes(runId: number): Promise<Array<{
+    areaName: string;
+    previousScrape: Date | null;
+    scrapedAt: Date;
+    listingIds: string[];
+    newIds: number;
+  }>> {
+    const result = await this.pool.query(
+      `DELETE FROM area_scrapes WHERE run_id = $1
+       RETURNING area_name, previous_scrape, scraped_at, listing_ids, new_ids`,
+      [runId]
+    );
+    return result.rows.map((row) => ({
+      areaName: row.area_name,
+      previousScrape: row.previous_scrape,
+      scrapedAt: row.scraped_at,
+      listingIds: row.listing_ids,
+      newIds: row.new_ids,
+    }));
+  }
+
+  /**
+   * Get areas due for scraping (never scraped areas are due right away),
+   * optionally only those of a type and among some names
    */
-  async getAreasDueForScraping(): Promise<Array<{
+  async getAreasDueForScraping(areaType?: 'city' | 'region', areaNames?: string[]): Promise<Array<{
     areaName: string;
     areaType: string;
     changeRate: number;
     scrapeIntervalHours: number;
-    lastScraped: Date;
-    nextScrape: Date;
+    lastScraped: Date | null;
+    nextScrape: Date | null;
   }>> {
     const result = await this.pool.query(
       `SELECT area_name, area_type, change_rate, scrape_interval_hours, last_scraped, next_scrape
        FROM geographic_areas
-       WHERE next_scrape <= NOW()
-       ORDER BY change_rate DESC, next_scrape ASC
-       LIMIT 100`
+       WHERE (next_scrape IS NULL OR next_scrape <= NOW())
+         AND ($1::text IS NULL OR area_type = $1)
+         AND ($2::text[] IS NULL OR area_name = ANY($2))
+       ORDER BY change_rate DESC, next_scrape ASC NULLS FIRST
+       LIMIT 100`,
+      [areaType ?? null, areaNames ?? null]
+    );
+    return result.rows.map((row) => ({
+      areaName: row.area_name,
+      areaType: row.area_type,
+      changeRate: parseFloat(row.change_rate || 0),
+      scrapeIntervalHours: row.scrape_interval_hours,
+      lastScraped: row.last_scraped,
+      nextScrape: row.next_scrape,
+    }));
+  }
+
+  /**
+   * Add areas that are missing from geographic_areas (due right away)
+   * Returns the number of areas added
+   */
+  async seedAreas(areaNames: string[], areaType: 'city' | 'region'): Promise<number> {
+    const result = await this.pool.query(
+      `INSERT INTO geographic_areas (area_name, area_type, next_scrape)
+       SELECT name, $2, NOW() FROM UNNEST($1::text[]) AS name
+       ON CONFLICT (area_name) DO NOTHING`,
+      [areaNames, areaType]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Summarize the stored state of a set of listings: how many are known and
+   * active, how many changed after a point in time, and their mean change rate
+   */
+  async getListingChangeSummary(portalIds: string[], changedSince: Date | null): Promise<{
+    known: number;
+    active: number;
+    changedSince: number;
+    avgChangeRate: number;
+  }> {
+    if (portalIds.length === 0) {
+      return { known: 0, active: 0, changedSince: 0, avgChangeRate: 0 };
+    }
+
+    const result = await this.pool.query(
+      `SELECT
+        COUNT(*) AS known,
+        COUNT(*) FILTER (WHERE current_status = 'active') AS active,
+        COUNT(*) FILTER (WHERE $2::timestamp IS NOT NULL AND first_seen <= $2::timestamp AND last_changed > $2::timestamp) AS changed_since,
+        COALESCE(AVG(change_rate), 0) AS avg_change_rate
+      FROM property_metadata WHERE portal_id = ANY($1)`,
+      [portalIds, changedSince]
     );
-    return result.rows;
+    const row = result.rows[0];
+    return {
+      known: parseInt(row.known),
+      active: parseInt(row.active),
+      changedSince: parseInt(row.changed_since),
+      avgChangeRate: parseFloat(row.avg_change_rate),
+    };
   }
 
   /**
@@ -269,15 +598,159 @@ export class ScraperDatabase {
   async getHighChangeProperties(limit: number = 1000): Promise<string[]> {
     const result = await this.pool.query(
       `SELECT portal_id FROM property_metadata
-       WHERE change_rate > 0.15
+       WHERE change_rate > $2
+       AND current_status = 'active'
        AND last_seen > NOW() - INTERVAL '7 days'
        ORDER BY change_rate DESC, last_changed DESC
        LIMIT $1`,
-      [limit]
+      [limit, config.highChangeRateThreshold]
     );
     return result.rows.map((row) => row.portal_id);
   }
 
+  /**
+   * Get active properties not refreshed in the last N hours (routine refresh)
+   */
+  async getPropertiesDueForRefresh(
+    hoursThreshold: number = 24,
+    limit: number = 10000
+  ): Promise<Array<{ portalId: string; changeRate: number }>> {
+    const result = await this.pool.query(
+      `SELECT portal_id, change_rate FROM property_metadata
+       WHERE current_status = 'active'
+       AND updated_at < NOW() - ($1 || ' hours')::INTERVAL
+       ORDER BY updated_at ASC
+       LIMIT $2`,
+      [hoursThreshold, limit]
+    );
+    return result.rows.map((row) => ({
+      portalId: row.portal_id,
+      changeRate: parseFloat(row.change_rate || 0),
+    }));
+  }
+
+  /**
+   * Get change rates for a set of properties (missing IDs are omitted)
+   */
+  async getChangeRates(portalIds: string[]): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    if (portalIds.length === 0) {
+      return rates;
+    }
+
+    const result = await this.pool.query(
+      'SELECT portal_id, change_rate FROM property_metadata WHERE portal_id = ANY($1)',
+      [portalIds]
+    );
+    for (const row of result.rows) {
+      rates.set(row.portal_id, parseFloat(row.change_rate || 0));
+    }
+    return rates;
+  }
+
+  /**
+   * Get the cached search shard plan of a city and category (null = not planned yet)
+   */
+  async getShardPlan(
+    city: string,
+    transactionType: 'sale' | 'rent',
+    category: PropertyCategory
+  ): Promise<SearchShard[] | null> {
+    const result = await this.pool.query(
+      'SELECT shards FROM search_shard_plans WHERE city = $1 AND transaction_type = $2 AND category = $3',
+      [city, transactionType, category]
+    );
+    return result.rows[0]?.shards || null;
+  }
+
+  /**
+   * Store the search shard plan of a city and category
+   */
+  async saveShardPlan(
+    city: string,
+    transactionType: 'sale' | 'rent',
+    category: PropertyCategory,
+    shards: SearchShard[]
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO search_shard_plans (city, transaction_type, category, shards, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (city, transaction_type, category) DO UPDATE SET shards = $4, updated_at = NOW()`,
+      [city, transactionType, category, JSON.stringify(shards)]
+    );
+  }
+
+  /**
+   * Store the search result of a geo discovery map tile
+   */
+  async recordGeoTile(
+    runId: number | null,
+    areaName: string,
+    tile: GeoTile,
+    result: {
+      expectedIds: number | null;
+      listingIds: string[];
+      newIds: number;
+      pages: number;
+      capped: boolean;
+      split: boolean;
+    }
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO geo_tiles
+        (run_id, area_name, depth, min_lat, min_lng, max_lat, max_lng,
+         expected_ids, actual_ids, new_ids, pages, capped, split, listing_ids, scraped_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW())`,
+      [
+        runId,
+        areaName,
+        tile.depth,
+        tile.minLat,
+        tile.minLng,
+        tile.maxLat,
+        tile.maxLng,
+        result.expectedIds,
+        result.listingIds.length,
+        result.newIds,
+        result.pages,
+        result.capped,
+        result.split,
+        result.listingIds,
+      ]
+    );
+  }
+
+  /**
+   * Get stored map tiles of a geo discovery run (default: latest run),
+   * optionally of one area; split tiles are left out unless requested
+   */
+  async getGeoTiles(options: { runId?: number; areaName?: string; includeSplit?: boolean } = {}): Promise<GeoTileRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM geo_tiles
+       WHERE run_id = COALESCE($1, (SELECT MAX(run_id) FROM geo_tiles))
+       AND ($2::text IS NULL OR area_name = $2)
+       AND ($3 OR NOT split)
+       ORDER BY area_name, depth, id`,
+      [options.runId ?? null, options.areaName ?? null, options.includeSplit ?? false]
+    );
+    return result.rows.map((row) => ({
+      areaName: row.area_name,
+      runId: row.run_id,
+      depth: row.depth,
+      minLat: parseFloat(row.min_lat),
+      minLng: parseFloat(row.min_lng),
+      maxLat: parseFloat(row.max_lat),
+      maxLng: parseFloat(row.max_lng),
+      expectedIds: row.expected_ids,
+      actualIds: row.actual_ids,
+      newIds: row.new_ids,
+      pages: row.pages,
+      capped: row.capped,
+      split: row.split,
+      scrapedAt: new Date(row.scraped_at).toISOString(),
+    }));
+  }
+
   /**
    * Record detailed changes between snapshots (Italian properties)
    */
@@ -351,6 +824,34 @@ export class ScraperDatabase {
     }
   }
 
+  /**
+   * Record a health check (queue state and change counters)
+   */
+  async recordHealth(health: HealthCheck): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO scraper_health (
+        checked_at, redis_connected, postgres_connected, queue_depth, processed_count,
+        failed_count, worker_count, errors_last_hour,
+        new_last_hour, changed_last_hour, unchanged_last_hour,
+        new_today, changed_today, unchanged_today
+      ) VALUES (NOW(), $1, TRUE, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        health.redisConnected,
+        health.queueDepth,
+        health.processedCount,
+        health.failedCount,
+        health.workerCount,
+        health.errorsLastHour,
+        health.lastHour.new,
+        health.lastHour.changed,
+        health.lastHour.unchanged,
+        health.today.new,
+        health.today.changed,
+        health.today.unchanged,
+      ]
+    );
+  }
+
   /**
    * Close database connection
    */
@@ -386,3 +887,57 @@ export class ScraperDatabase {
     };
   }
 }
+
+/**
+ * Scraper DB operations of the coordinator, workers and run accounting
+ * (ScraperDatabase, or MemoryDatabase without PostgreSQL)
+ */
+export type ScraperStore = Pick<
+  ScraperDatabase,
+  | 'initialize'
+  | 'close'
+  | 'startScrapeRun'
+  | 'recordSkippedRun'
+  | 'failScrapeRun'
+  | 'reopenScrapeRun'
+  | 'saveCheckpoint'
+  | 'recordCityCounts'
+  | 'incrementRunCounts'
+  | 'markRunDraining'
+  | 'finalizeScrapeRun'
+  | 'failStaleRuns'
+  | 'getDrainingRuns'
+  | 'storeSnapshot'
+  | 'updatePropertyMetadata'
+  | 'getPropertyMetadata'
+  | 'getListingChangeSummary'
+  | 'getChangeRates'
+  | 'getHighChangeProperties'
+  | 'getPropertiesDueForRefresh'
+  | 'getShardPlan'
+  | 'saveShardPlan'
+  | 'recordGeoTile'
+  | 'updateAreaStats'
+  | 'recordAreaScrape'
+  | 'takeAreaScrapes'
+  | 'getAreasDueForScraping'
+  | 'seedAreas'
+  | 'recordHealth'
+>;
+
+let sharedMemoryDatabase: MemoryDatabase | null = null;
+
+/**
+ * Create the scraper store for the configured queue backend
+ * (QUEUE_BACKEND=memory: one in-process MemoryDatabase shared by every
+ * component of the process, so no PostgreSQL is needed)
+ */
+export function createScraperStore(): ScraperStore {
+  if (config.queueBackend === 'memory') {
+    if (!sharedMemoryDatabase) {
+      sharedMemoryDatabase = new MemoryDatabase();
+    }
+    return sharedMemoryDatabase;
+  }
+  return new ScraperDatabase();
+}
@@ -0,0 +1,302 @@
+/**
+ * Property Lifecycle Events - Immobiliare.it
+ *
+ * Typed events published to a Redis Stream (landomo:<portal>:events):
+ * - discovered: coordinator found a listing ID new to its segment
+ * - price_changed: worker fetched a listing whose price differs from the last scrape
+ * - inactive: verifier found the listing removed from the portal
+ * - reactivated: worker fetched a listing previously marked inactive
+ *
+ * Consumers either tail the stream from an offset (XREAD) or join a consumer
+ * group (XREADGROUP + XACK); unacknowledged events of crashed consumers are
+ * claimed by the others after claimIdleMs.
+ */
+
+import Redis from 'ioredis';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('Events');
+
+export type PropertyEventType = 'discovered' | 'price_changed' | 'inactive' | 'reactivated';
+
+export const PROPERTY_EVENT_TYPES: PropertyEventType[] = ['discovered', 'price_changed', 'inactive', 'reactivated'];
+
+export interface PropertyEvent {
+  type: PropertyEventType;
+  portalId: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  runId?: number;
+  source: 'coordinator' | 'worker' | 'verifier';
+  occurredAt: string;
+}
+
+/**
+ * Event read back from the stream (id is the stream entry ID, usable as offset)
+ */
+export interface StoredPropertyEvent extends PropertyEvent {
+  id: string;
+}
+
+export type NewPropertyEvent = Omit<PropertyEvent, 'occurredAt'>;
+
+export interface EventPublisher {
+  publish(event: NewPropertyEvent): Promise<void>;
+  publishMany(events: NewPropertyEvent[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Parse stream entries ([id, [field, value, ...]]) into events
+ */
+function parseEntries(entries: Array<[string, string[]]>): StoredPropertyEvent[] {
+  return entries.map(([id, fields]) => {
+    const dataIndex = fields.indexOf('data');
+    return { id, ...JSON.parse(fields[dataIndex + 1]) };
+  });
+}
+
+export class PropertyEventStream implements EventPublisher {
+  private redis: Redis;
+  private streamKey: string;
+  private stopped: boolean = false;
+
+  /**
+   * Blocking reads (tail/consume) occupy the connection, so use a separate
+   * instance for consuming and publishing.
+   */
+  constructor(
+    portal: string = 'immobiliare',
+    redisUrl?: string
+  ) {
+    this.redis = new Redis(redisUrl || config.redisUrl, {
+      maxRetriesPerRequest: null, // Blocking reads may wait longer than the retry window
+    });
+    this.streamKey = `landomo:${portal}:events`;
+
+    this.redis.on('error', (err) => {
+      logger.error('Redis error:', err);
+    });
+  }
+
+  // ===== PUBLISHING =====
+
+  /**
+   * Publish one event
+   */
+  async publish(event: NewPropertyEvent): Promise<void> {
+    await this.publishMany([event]);
+  }
+
+  /**
+   * Publish events in one round trip (stream capped at EVENT_STREAM_MAX_LEN)
+   */
+  async publishMany(events: NewPropertyEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const occurredAt = new Date().toISOString();
+    const pipeline = this.redis.pipeline();
+    for (const event of events) {
+      pipeline.xadd(
+        this.streamKey,
+        'MAXLEN',
+        '~',
+        config.eventStreamMaxLen,
+        '*',
+        'type',
+        event.type,
+        'data',
+        JSON.stringify({ ...event, occurredAt })
+      );
+    }
+    await pipeline.exec();
+  }
+
+  // ===== READING =====
+
+  /**
+   * Read events after an offset (exclusive), oldest first
+   * ('0' replays the stream from the start)
+   */
+  async readAfter(offset: string = '0', count: number = 100): Promise<StoredPropertyEvent[]> {
+    const entries = await this.redis.xrange(this.streamKey, `(${offset}`, '+', 'COUNT', count);
+    return parseEntries(entries);
+  }
+
+  /**
+   * Follow the stream from an offset ('$' = only new events) until stop()
+   */
+  async tail(
+    handler: (event: StoredPropertyEvent) => Promise<void> | void,
+    offset: string = '$',
+    blockMs: number = 5000
+  ): Promise<void> {
+    let lastId = offset;
+    this.stopped = false;
+
+    while (!this.stopped) {
+      const result = await this.redis.xread('COUNT', 100, 'BLOCK', blockMs, 'STREAMS', this.streamKey, lastId);
+      if (!result) continue;
+
+      for (const event of parseEntries(result[0][1])) {
+        await handler(event);
+        lastId = event.id;
+      }
+    }
+  }
+
+  // ===== CONSUMER GROUPS =====
+
+  /**
+   * Create a consumer group if it does not exist
+   * (startId '$' = only new events, '0' = replay the whole stream)
+   */
+  async ensureGroup(group: string, startId: string = '$'): Promise<void> {
+    try {
+      await this.redis.xgroup('CREATE', this.streamKey, group, startId, 'MKSTREAM');
+      logger.info(`Created consumer group ${group} at ${startId}`);
+    } catch (error: any) {
+      if (!String(error?.message).includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Move a consumer group to another offset (replay or skip events)
+   */
+  async setGroupOffset(group: string, offset: string): Promise<void> {
+    await this.redis.xgroup('SETID', this.streamKey, group, offset);
+    logger.info(`Moved consumer group ${group} to ${offset}`);
+  }
+
+  /**
+   * Consume events as a member of a group until stop()
+   * Events are acknowledged after the handler resolves; a failing handler
+   * leaves the event pending, so it is retried once it has been idle for
+   * claimIdleMs (by this or another consumer).
+   */
+  async consume(
+    group: string,
+    consumer: string,
+    handler: (event: StoredPropertyEvent) => Promise<void> | void,
+    options: { count?: number; blockMs?: number; claimIdleMs?: number } = {}
+  ): Promise<void> {
+    const { count = 100, blockMs = 5000, claimIdleMs = 60000 } = options;
+    this.stopped = false;
+
+    while (!this.stopped) {
+      // Pending events of crashed (or failing) consumers first
+      const [, claimed] = await this.redis.xautoclaim(
+        this.streamKey, group, consumer, claimIdleMs, '0', 'COUNT', count
+      ) as [string, Array<[string, string[]]>];
+      let events = parseEntries(claimed.filter(entry => entry && entry[1]));
+
+      if (events.length === 0) {
+        const result = await this.redis.xreadgroup(
+          'GROUP', group, consumer, 'COUNT', count, 'BLOCK', blockMs, 'STREAMS', this.streamKey, '>'
+        ) as Array<[string, Array<[string, string[]]>]> | null;
+        events = result ? parseEntries(result[0][1]) : [];
+      }
+
+      for (const event of events) {
+        try {
+          await handler(event);
+          await this.redis.xack(this.streamKey, group, event.id);
+        } catch (error) {
+          logger.error(`Handler failed for event ${event.id} (${event.type} ${event.portalId}):`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop tail/consume after the current read
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Get stream length and consumer groups
+   */
+  async getInfo(): Promise<{ length: number; groups: Array<{ name: string; pending: number; lastDeliveredId: string }> }> {
+    const length = await this.redis.xlen(this.streamKey);
+    if (length === 0) {
+      return { length, groups: [] };
+    }
+
+    const groups = await this.redis.xinfo('GROUPS', this.streamKey) as Array<Array<string | number>>;
+    return {
+      length,
+      groups: groups.map(fields => {
+        const info: Record<string, string | number> = {};
+        for (let i = 0; i < fields.length; i += 2) {
+          info[fields[i] as string] = fields[i + 1];
+        }
+        return {
+          name: String(info.name),
+          pending: Number(info.pending),
+          lastDeliveredId: String(info['last-delivered-id']),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async close(): Promise<void> {
+    this.stopped = true;
+    await this.redis.quit();
+  }
+}
+
+/**
+ * Keeps recent events in process memory (single-process runs without Redis)
+ */
+export class MemoryEventLog implements EventPublisher {
+  private events: PropertyEvent[] = [];
+
+  async publish(event: NewPropertyEvent): Promise<void> {
+    await this.publishMany([event]);
+  }
+
+  async publishMany(events: NewPropertyEvent[]): Promise<void> {
+    const occurredAt = new Date().toISOString();
+    for (const event of events) {
+      this.events.push({ ...event, occurredAt });
+      logger.debug(`${event.type} ${event.portalId}`);
+    }
+    if (this.events.length > config.eventStreamMaxLen) {
+      this.events.splice(0, this.events.length - config.eventStreamMaxLen);
+    }
+  }
+
+  /**
+   * Get recorded events (oldest first)
+   */
+  getEvents(): PropertyEvent[] {
+    return [...this.events];
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+let sharedMemoryEventLog: MemoryEventLog | null = null;
+
+/**
+ * Create the event publisher matching the queue backend
+ */
+export function createEventPublisher(portal: string = 'immobiliare'): EventPublisher {
+  if (config.queueBackend === 'memory') {
+    if (!sharedMemoryEventLog) {
+      sharedMemoryEventLog = new MemoryEventLog();
+    }
+    return sharedMemoryEventLog;
+  }
+  return new PropertyEventStream(portal);
+}
@@ -0,0 +1,77 @@
+/**
+ * Failure Classification for Detail Fetching
+ *
+ * Maps fetch errors to a failure class so workers can decide whether
+ * (and how long to wait before) a listing is retried.
+ */
+
+import { config } from './config';
+import { computeBackoffDelay } from './utils';
+
+export type FailureClass =
+  | 'blocked'       // DataDome challenge / 403
+  | 'rate_limited'  // 429
+  | 'not_found'     // 404 / 410 - listing removed
+  | 'server_error'  // 5xx
+  | 'network'       // timeouts, resets, DNS
+  | 'no_data'       // page loaded but no listing data
+  | 'unknown';
+
+/** How the listing detail was fetched */
+export type FetchStrategy = 'http' | 'browser';
+
+export interface FailureInfo {
+  failureClass: FailureClass;
+  httpStatus?: number;
+  retryable: boolean;
+}
+
+/**
+ * Base delay multiplier per failure class
+ * (DataDome blocks need a long cool-down, network blips do not)
+ */
+const RETRY_DELAY_MULTIPLIERS: Record<FailureClass, number> = {
+  blocked: 8,
+  rate_limited: 4,
+  server_error: 2,
+  network: 1,
+  unknown: 1,
+  no_data: 1,
+  not_found: 0,
+};
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED'];
+
+/**
+ * Classify an error thrown while fetching a listing
+ */
+export function classifyFailure(error: any): FailureInfo {
+  const httpStatus: number | undefined = error?.response?.status ?? error?.status;
+  const message = String(error?.message || error || '');
+
+  if (httpStatus === 403 || message.includes('DataDome')) {
+    return { failureClass: 'blocked', httpStatus, retryable: true };
+  }
+  if (httpStatus === 429) {
+    return { failureClass: 'rate_limited', httpStatus, retryable: true };
+  }
+  if (httpStatus === 404 || httpStatus === 410) {
+    return { failureClass: 'not_found', httpStatus, retryable: false };
+  }
+  if (httpStatus && httpStatus >= 500) {
+    return { failureClass: 'server_error', httpStatus, retryable: true };
+  }
+  if (NETWORK_ERROR_CODES.includes(error?.code) || /timeout/i.test(message)) {
+    return { failureClass: 'network', httpStatus, retryable: true };
+  }
+
+  return { failureClass: 'unknown', httpStatus, retryable: true };
+}
+
+/**
+ * Get retry delay for a failure class and attempt number (1-based)
+ */
+export function getRetryDelay(failureClass: FailureClass, attempt: number): number {
+  const baseDelayMs = config.retryBaseDelayMs * RETRY_DELAY_MULTIPLIERS[failureClass];
+  return computeBackoffDelay(attempt, baseDelayMs, config.retryMaxDelayMs, config.retryJitterRatio);
+}
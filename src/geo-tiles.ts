@@ -0,0 +1,133 @@
+/**
+ * Map Tiles for Geo Discovery
+ *
+ * Covers an area (a square around a city centre) with bounding-box tiles for
+ * map-based searches. Tiles over the portal's result cap are split into four
+ * quadrants. Tile results can be rendered as GeoJSON to inspect coverage.
+ */
+
+import { CityCoords } from './config';
+
+export interface GeoTile {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+  depth: number; // 0 = grid tile, +1 per split
+}
+
+/**
+ * Stored search result of a tile
+ */
+export interface GeoTileRecord extends GeoTile {
+  areaName: string;
+  runId: number | null;
+  expectedIds: number | null;
+  actualIds: number;
+  newIds: number;
+  pages: number;
+  capped: boolean;
+  split: boolean;
+  scrapedAt: string;
+}
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+function kmPerDegreeLng(lat: number): number {
+  return KM_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+}
+
+/**
+ * Grid of square tiles (about tileKm wide) covering radiusKm around a centre
+ */
+export function tileArea(center: CityCoords, radiusKm: number, tileKm: number): GeoTile[] {
+  const latStep = tileKm / KM_PER_DEGREE_LAT;
+  const lngStep = tileKm / kmPerDegreeLng(center.lat);
+  const count = Math.max(1, Math.ceil((radiusKm * 2) / tileKm));
+  const minLat = center.lat - (latStep * count) / 2;
+  const minLng = center.lng - (lngStep * count) / 2;
+
+  const tiles: GeoTile[] = [];
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      tiles.push({
+        minLat: round(minLat + row * latStep),
+        minLng: round(minLng + col * lngStep),
+        maxLat: round(minLat + (row + 1) * latStep),
+        maxLng: round(minLng + (col + 1) * lngStep),
+        depth: 0,
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Split a tile into four quadrants
+ */
+export function splitTile(tile: GeoTile): GeoTile[] {
+  const midLat = round((tile.minLat + tile.maxLat) / 2);
+  const midLng = round((tile.minLng + tile.maxLng) / 2);
+  const depth = tile.depth + 1;
+  return [
+    { minLat: tile.minLat, minLng: tile.minLng, maxLat: midLat, maxLng: midLng, depth },
+    { minLat: tile.minLat, minLng: midLng, maxLat: midLat, maxLng: tile.maxLng, depth },
+    { minLat: midLat, minLng: tile.minLng, maxLat: tile.maxLat, maxLng: midLng, depth },
+    { minLat: midLat, minLng: midLng, maxLat: tile.maxLat, maxLng: tile.maxLng, depth },
+  ];
+}
+
+/**
+ * Polygon vertices of a tile in the portal's map search format
+ * ("lat,lng;lat,lng;...", clockwise from the north-west corner)
+ */
+export function tileToVertices(tile: GeoTile): string {
+  return [
+    [tile.maxLat, tile.minLng],
+    [tile.maxLat, tile.maxLng],
+    [tile.minLat, tile.maxLng],
+    [tile.minLat, tile.minLng],
+  ].map(([lat, lng]) => `${lat},${lng}`).join(';');
+}
+
+export function describeTile(tile: GeoTile): string {
+  return `${tile.minLat},${tile.minLng} - ${tile.maxLat},${tile.maxLng} (depth ${tile.depth})`;
+}
+
+/**
+ * Render tile results as a GeoJSON FeatureCollection (one polygon per tile)
+ */
+export function tilesToGeoJSON(records: GeoTileRecord[]): object {
+  return {
+    type: 'FeatureCollection',
+    features: records.map(record => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[
+          [record.minLng, record.minLat],
+          [record.maxLng, record.minLat],
+          [record.maxLng, record.maxLat],
+          [record.minLng, record.maxLat],
+          [record.minLng, record.minLat],
+        ]],
+      },
+      properties: {
+        area: record.areaName,
+        runId: record.runId,
+        depth: record.depth,
+        expectedIds: record.expectedIds,
+        actualIds: record.actualIds,
+        newIds: record.newIds,
+        pages: record.pages,
+        capped: record.capped,
+        split: record.split,
+        scrapedAt: record.scrapedAt,
+      },
+    })),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
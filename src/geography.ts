@@ -0,0 +1,216 @@
+/**
+ * Italian Comuni Registry
+ *
+ * Comuni with their immobiliare.it slug, province, region, ISTAT code,
+ * population and centroid, read from data/comuni.csv. The bundled file
+ * holds every comune of the ISTAT list as of 1 January 2020 with its 2011
+ * census population; only the province capitals have a centroid.
+ * `npm run geo:import` rebuilds it from a newer ISTAT list (see
+ * ./import-comuni).
+ *
+ * Discovery targets are comma-separated selectors:
+ *   all | capoluoghi | region:<name> | province:<code or name> | <comune slug>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface Comune {
+  istatCode: string;      // "015146"
+  name: string;           // ISTAT name in Italian ("Reggio nell'Emilia")
+  slug: string;           // immobiliare.it location slug ("reggio-emilia")
+  provinceCode: string;   // car plate code ("MI")
+  provinceName: string;
+  region: string;
+  capoluogo: boolean;     // capital of its province / metropolitan city
+  population: number | null;
+  lat: number | null;     // centroid
+  lng: number | null;
+}
+
+export const COMUNI_DATA_PATH = path.resolve(__dirname, '..', 'data', 'comuni.csv');
+
+const CSV_COLUMNS = [
+  'istat_code', 'name', 'slug', 'province_code', 'province_name',
+  'region', 'capoluogo', 'population', 'lat', 'lng',
+];
+
+/**
+ * Portal slugs that differ from the one derived from the ISTAT name
+ */
+export const SLUG_OVERRIDES: Record<string, string> = {
+  '035033': 'reggio-emilia',   // Reggio nell'Emilia
+  '080063': 'reggio-calabria', // Reggio di Calabria
+};
+
+let comuni: Comune[] | null = null;
+let bySlug: Map<string, Comune> = new Map();
+
+/**
+ * Slug of a name: Italian part of bilingual names, no accents, words
+ * joined by dashes ("Forlì" -> "forli", "L'Aquila" -> "l-aquila")
+ */
+export function toSlug(name: string): string {
+  return name
+    .split('/')[0]
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parse the registry CSV (semicolon-separated, header row)
+ */
+export function parseComuniCsv(text: string): Comune[] {
+  const [header, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+  if (header !== CSV_COLUMNS.join(';')) {
+    throw new Error(`Unexpected comuni CSV header "${header}"`);
+  }
+
+  const toNumber = (value: string): number | null => (value === '' ? null : Number(value));
+  return lines.map(line => {
+    const [istatCode, name, slug, provinceCode, provinceName, region, capoluogo, population, lat, lng] = line.split(';');
+    return {
+      istatCode,
+      name,
+      slug,
+      provinceCode,
+      provinceName,
+      region,
+      capoluogo: capoluogo === '1',
+      population: toNumber(population),
+      lat: toNumber(lat),
+      lng: toNumber(lng),
+    };
+  });
+}
+
+/**
+ * Format comuni as registry CSV
+ */
+export function formatComuniCsv(rows: Comune[]): string {
+  const lines = rows.map(comune => [
+    comune.istatCode,
+    comune.name,
+    comune.slug,
+    comune.provinceCode,
+    comune.provinceName,
+    comune.region,
+    comune.capoluogo ? '1' : '0',
+    comune.population ?? '',
+    comune.lat ?? '',
+    comune.lng ?? '',
+  ].join(';'));
+  return [CSV_COLUMNS.join(';'), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Every comune in the registry (read once)
+ */
+export function loadComuni(): Comune[] {
+  if (!comuni) {
+    comuni = parseComuniCsv(fs.readFileSync(COMUNI_DATA_PATH, 'utf8'));
+    bySlug = new Map(comuni.map(comune => [comune.slug, comune]));
+  }
+  return comuni;
+}
+
+/**
+ * Comune by slug, name or ISTAT code
+ */
+export function findComune(query: string): Comune | undefined {
+  const all = loadComuni();
+  const key = query.trim();
+  if (/^\d{6}$/.test(key)) {
+    return all.find(comune => comune.istatCode === key);
+  }
+  return bySlug.get(key.toLowerCase()) ?? bySlug.get(toSlug(key));
+}
+
+/**
+ * Comuni whose slug contains (or shares a prefix with) a query: containing
+ * ones first ("samone" -> samone-to, samone-tn), then largest first
+ */
+export function suggestComuni(query: string, limit: number = 5): Comune[] {
+  const key = toSlug(query);
+  if (!key) return [];
+  const prefix = key.slice(0, 3);
+  const contains = (comune: Comune) => (comune.slug.includes(key) ? 0 : 1);
+  return loadComuni()
+    .filter(comune => comune.slug.startsWith(prefix) || comune.slug.includes(key))
+    .sort((a, b) => contains(a) - contains(b) || byPopulation(a, b))
+    .slice(0, limit);
+}
+
+/**
+ * Comune by slug, name or ISTAT code (throws with suggestions if unknown)
+ */
+export function requireComune(query: string): Comune {
+  const comune = findComune(query);
+  if (!comune) {
+    const suggestions = suggestComuni(query).map(candidate => candidate.slug);
+    throw new Error(
+      `Unknown comune "${query}"` +
+      (suggestions.length > 0 ? ` (did you mean ${suggestions.join(', ')}?)` : '')
+    );
+  }
+  return comune;
+}
+
+/**
+ * Comuni matching a target spec ("region:lombardia,capoluoghi"), largest first
+ */
+export function resolveTargets(spec: string): Comune[] {
+  const selected = new Map<string, Comune>();
+  for (const selector of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    for (const comune of selectComuni(selector)) {
+      selected.set(comune.istatCode, comune);
+    }
+  }
+  if (selected.size === 0) {
+    throw new Error(`Target "${spec}" matches no comuni`);
+  }
+  return [...selected.values()].sort(byPopulation);
+}
+
+/**
+ * Comuni matching one selector
+ */
+function selectComuni(selector: string): Comune[] {
+  const separator = selector.indexOf(':');
+  const kind = separator >= 0 ? selector.slice(0, separator).toLowerCase() : selector.toLowerCase();
+  const value = separator >= 0 ? selector.slice(separator + 1).trim() : '';
+  const all = loadComuni();
+
+  switch (kind) {
+    case 'all':
+      return all;
+    case 'capoluoghi':
+      return all.filter(comune => comune.capoluogo);
+    case 'region': {
+      const matches = all.filter(comune => toSlug(comune.region) === toSlug(value));
+      if (matches.length === 0) {
+        const regions = [...new Set(all.map(comune => toSlug(comune.region)))];
+        throw new Error(`Unknown region "${value}" (known: ${regions.join(', ')})`);
+      }
+      return matches;
+    }
+    case 'province': {
+      const matches = all.filter(comune =>
+        comune.provinceCode === value.toUpperCase() || toSlug(comune.provinceName) === toSlug(value)
+      );
+      if (matches.length === 0) {
+        throw new Error(`Unknown province "${value}"`);
+      }
+      return matches;
+    }
+    default:
+      return [requireComune(selector)];
+  }
+}
+
+function byPopulation(a: Comune, b: Comune): number {
+  return (b.population ?? -1) - (a.population ?? -1);
+}
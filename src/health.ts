@@ -0,0 +1,44 @@
+/**
+ * Scraper Health Snapshots
+ *
+ * Queue state (depth, processed, failed, live workers, dead letters of the
+ * last hour) and change counters written as a scraper_health row, by the
+ * scheduler on SCHEDULE_HEALTH and by `npm run queue:health`.
+ */
+
+import type { QueueBackend, ChangeCounters } from './queue-backend';
+import type { ScraperStore } from './database';
+
+export interface HealthCheck {
+  redisConnected: boolean;
+  queueDepth: number;
+  processedCount: number;
+  failedCount: number;
+  workerCount: number;
+  errorsLastHour: number;
+  lastHour: ChangeCounters;
+  today: ChangeCounters;
+}
+
+/**
+ * Write a health row from the current queue state (returns what was written)
+ */
+export async function recordHealthSnapshot(queue: QueueBackend, db: ScraperStore): Promise<HealthCheck> {
+  const stats = await queue.getStats();
+  const changeStats = await queue.getChangeStats();
+  const workers = await queue.getWorkers();
+  const errorsLastHour = await queue.getDeadLetters({ since: Date.now() - 3600000 });
+
+  const health: HealthCheck = {
+    redisConnected: queue.isConnected(),
+    queueDepth: stats.queueDepth,
+    processedCount: stats.processedCount,
+    failedCount: stats.failedCount,
+    workerCount: workers.length,
+    errorsLastHour: errorsLastHour.length,
+    lastHour: changeStats.lastHour,
+    today: changeStats.today,
+  };
+  await db.recordHealth(health);
+  return health;
+}
@@ -0,0 +1,172 @@
+/**
+ * Comuni Registry Import
+ *
+ * Rebuilds data/comuni.csv from the ISTAT list of comuni
+ * (Elenco-comuni-italiani.csv, semicolon-separated, UTF-8 or Latin-1).
+ * That list has no population or centroid: --extra takes a CSV with
+ * istat_code, population, lat and lng columns; comuni missing from it keep
+ * the values already in the registry. Homonymous comuni get the province
+ * code appended to their slug.
+ *
+ * Usage:
+ *   npm run geo:import -- Elenco-comuni-italiani.csv [--extra comuni-extra.csv]
+ */
+
+import * as fs from 'fs';
+import { createLogger } from './logger';
+import {
+  Comune,
+  COMUNI_DATA_PATH,
+  SLUG_OVERRIDES,
+  toSlug,
+  loadComuni,
+  formatComuniCsv,
+} from './geography';
+
+const logger = createLogger('ImportComuni');
+
+/** ISTAT columns, matched by the start of the slug of their header */
+const ISTAT_COLUMNS = {
+  istatCode: 'codice-comune-formato-alfanumerico',
+  name: 'denominazione-in-italiano',
+  region: 'denominazione-regione',
+  provinceName: 'denominazione-dell-unita-territoriale-sovracomunale',
+  capoluogo: 'flag-comune-capoluogo',
+  provinceCode: 'sigla-automobilistica',
+};
+
+/**
+ * Read a text file as UTF-8, or Latin-1 if it is not valid UTF-8
+ */
+function readText(filePath: string): string {
+  const buffer = fs.readFileSync(filePath);
+  const text = buffer.toString('utf8');
+  return text.includes('\uFFFD') ? buffer.toString('latin1') : text;
+}
+
+/**
+ * Split a delimited line (fields may be double-quoted)
+ */
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Rows of a delimited file keyed by the slugs of its headers
+ */
+function readRows(filePath: string): Array<Record<string, string>> {
+  const [header, ...lines] = readText(filePath).split(/\r?\n/).filter(line => line.trim());
+  const delimiter = header.includes(';') ? ';' : ',';
+  const columns = splitLine(header, delimiter).map(toSlug);
+  return lines.map(line => {
+    const values = splitLine(line, delimiter);
+    return Object.fromEntries(columns.map((column, i) => [column, values[i] ?? '']));
+  });
+}
+
+/**
+ * Value of the first column whose header starts with a prefix
+ */
+function column(row: Record<string, string>, prefix: string): string {
+  const key = Object.keys(row).find(name => name.startsWith(prefix));
+  if (key === undefined) {
+    throw new Error(`Column "${prefix}" not found in the ISTAT file`);
+  }
+  return row[key];
+}
+
+/**
+ * Parse a number written with a decimal comma or point (empty = null)
+ */
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const number = Number(value.replace(',', '.'));
+  return Number.isFinite(number) ? number : null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const extraIndex = args.indexOf('--extra');
+  const extraFile = extraIndex >= 0 ? args[extraIndex + 1] : undefined;
+  const istatFile = args.find((arg, i) => !arg.startsWith('--') && (extraIndex < 0 || i !== extraIndex + 1));
+  if (!istatFile) {
+    logger.error('Usage: npm run geo:import -- <Elenco-comuni-italiani.csv> [--extra <csv>]');
+    process.exit(1);
+  }
+
+  const previous = new Map(loadComuni().map(comune => [comune.istatCode, comune]));
+  const extra = new Map(
+    (extraFile ? readRows(extraFile) : []).map(row => [(row['istat-code'] ?? '').padStart(6, '0'), row])
+  );
+
+  const comuni: Comune[] = readRows(istatFile).map(row => {
+    const istatCode = column(row, ISTAT_COLUMNS.istatCode).padStart(6, '0');
+    const name = column(row, ISTAT_COLUMNS.name);
+    const known = previous.get(istatCode);
+    const values = extra.get(istatCode);
+    return {
+      istatCode,
+      name,
+      slug: SLUG_OVERRIDES[istatCode] ?? toSlug(name),
+      provinceCode: column(row, ISTAT_COLUMNS.provinceCode),
+      provinceName: column(row, ISTAT_COLUMNS.provinceName),
+      region: column(row, ISTAT_COLUMNS.region),
+      capoluogo: column(row, ISTAT_COLUMNS.capoluogo) === '1',
+      population: parseNumber(values?.population) ?? known?.population ?? null,
+      lat: parseNumber(values?.lat) ?? known?.lat ?? null,
+      lng: parseNumber(values?.lng) ?? known?.lng ?? null,
+    };
+  });
+
+  // Homonyms: "samone-to", "samone-tn"
+  const slugCounts = new Map<string, number>();
+  for (const comune of comuni) {
+    slugCounts.set(comune.slug, (slugCounts.get(comune.slug) ?? 0) + 1);
+  }
+  for (const comune of comuni) {
+    if (slugCounts.get(comune.slug)! > 1) {
+      comune.slug = `${comune.slug}-${comune.provinceCode.toLowerCase()}`;
+    }
+  }
+
+  comuni.sort((a, b) => a.istatCode.localeCompare(b.istatCode));
+  fs.writeFileSync(COMUNI_DATA_PATH, formatComuniCsv(comuni));
+
+  const missingPopulation = comuni.filter(comune => comune.population === null).length;
+  const missingCentroid = comuni.filter(comune => comune.lat === null || comune.lng === null).length;
+  logger.info(
+    `Wrote ${comuni.length} comuni (${comuni.filter(comune => comune.capoluogo).length} capoluoghi) ` +
+    `to ${COMUNI_DATA_PATH}`
+  );
+  if (missingPopulation > 0 || missingCentroid > 0) {
+    logger.warn(`${missingPopulation} comuni without population, ${missingCentroid} without centroid`);
+  }
+}
+
+// Execute
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -6,8 +6,13 @@ import { createLogger } from './logger';
  *   tsx src/index.ts [options]
  *
  * Options:
- *   --location <city>              City to scrape (default: milano)
+ *   --location <comune>            Comune to scrape, by slug, name or ISTAT code
+ *                                  (checked against the comuni registry; default: milano)
  *   --transactionType <sale|rent>  Transaction type (default: sale)
+ *   --filters <query>              Search filters as immobiliare query parameters
+ *                                  (e.g. "prezzoMassimo=300000&localiMinimo=3&noAste=1")
+ *   --url <search URL>             Immobiliare search URL (replaces --location,
+ *                                  --transactionType and --filters)
  *   --limit <number>               Maximum properties to scrape
  *   --maxPages <number>            Max pages per city (default: 3)
  *   --headless <true|false>        Run browser in headless mode (default: true)
@@ -16,10 +21,13 @@ import { createLogger } from './logger';
  * Examples:
  *   tsx src/index.ts --location milano --limit 5
  *   tsx src/index.ts --location roma --transactionType rent --limit 10
+ *   tsx src/index.ts --location torino --filters "localiMinimo=3&ascensore=1"
  */
 
 import { program } from 'commander';
-import { ImmobiliareScraper, ITALIAN_CITIES } from './scraper.js';
+import { ImmobiliareScraper } from './scraper.js';
+import { requireComune, Comune } from './geography';
+import { SearchSpec, parseSearchUrl, parseSearchFilters, hasFilters, filtersQuery } from './search-spec';
 import { connectRedis, saveProperties, disconnectRedis } from './redis';
 import type { Property } from './types';
 
@@ -32,7 +40,7 @@ program
   .version('2.0.0')
   .option(
     '--location <city>',
-    'City to scrape (e.g., milano, roma, napoli)',
+    'Comune to scrape by slug, name or ISTAT code (e.g., milano, reggio-emilia, 058091)',
     'milano'
   )
   .option(
@@ -40,6 +48,14 @@ program
     'Transaction type: sale or rent',
     'sale'
   )
+  .option(
+    '--filters <query>',
+    'Search filters as immobiliare query parameters (e.g., prezzoMassimo=300000&localiMinimo=3)'
+  )
+  .option(
+    '--url <url>',
+    'Immobiliare search URL (replaces --location, --transactionType and --filters)'
+  )
   .option(
     '--limit <number>',
     'Maximum number of properties to scrape',
@@ -64,16 +80,24 @@ const options = program.opts();
 
 // Validate transaction type
 if (options.transactionType !== 'sale' && options.transactionType !== 'rent') {
-  logger.error("❌ Error: --transactionType must be "sale" or "rent"");
+  logger.error('❌ Error: --transactionType must be "sale" or "rent"');
   process.exit(1);
 }
 
-// Validate location
-const location = options.location.toLowerCase();
-if (!ITALIAN_CITIES.includes(location)) {
-  logger.warn(`⚠️  Warning: "${location}" is not in the predefined city list, but will attempt to scrape anyway.`);
-  logger.info(`Available cities: ${ITALIAN_CITIES.join(', ')}`);
+// Build the search spec and validate its location against the comuni registry
+let spec: SearchSpec;
+let comune: Comune;
+try {
+  spec = options.url
+    ? parseSearchUrl(options.url)
+    : { city: options.location, transactionType: options.transactionType, ...parseSearchFilters(options.filters || '') };
+  comune = requireComune(spec.city);
+  spec.city = comune.slug;
+} catch (error) {
+  logger.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
 }
+const location = comune.slug;
 
 /**
  * Format property for console output
@@ -99,8 +123,11 @@ async function main() {
   logger.info("=" + "=".repeat(80));
   logger.info('🇮🇹  Immobiliare.it Scraper v2.0');
   logger.info("=" + "=".repeat(80));
-  logger.info(`📍 Location: ${location}`);
-  logger.info(`💼 Transaction type: ${options.transactionType}`);
+  logger.info(`📍 Location: ${comune.name} (${comune.provinceCode}, ${comune.region}) - ${location}`);
+  logger.info(`💼 Transaction type: ${spec.transactionType}`);
+  if (hasFilters(spec)) {
+    logger.info(`🔎 Filters: ${filtersQuery(spec)}`);
+  }
   logger.info(`📄 Max pages: ${options.maxPages}`);
   logger.info(`🎯 Limit: ${options.limit || 'none'}`);
   logger.info(`👁️  Headless: ${options.headless}`);
@@ -120,10 +147,9 @@ async function main() {
     // Initialize browser
     await scraper.initialize();
 
-    // Scrape the specified city
-    properties = await scraper.scrapeCity(
-      location,
-      options.transactionType,
+    // Scrape the specified search
+    properties = await scraper.scrapeSearch(
+      spec,
       options.maxPages,
       options.limit
     );
@@ -169,14 +195,14 @@ async function main() {
       logger.info('📊 Summary:');
       logger.info(`   - Source: immobiliare.it`);
       logger.info(`   - Location: ${location}`);
-      logger.info(`   - Transaction type: ${options.transactionType}`);
+      logger.info(`   - Transaction type: ${spec.transactionType}`);
       logger.info(`   - Properties stored: ${count}`);
       logger.info("");
     } catch (error) {
       logger.error('❌ Failed to store properties in Redis:', error);
       logger.info("");
       logger.info('📄 Properties will be output to console instead:');
-      logger.info('Data dump', properties));
+      logger.info('Data dump', properties);
     } finally {
       await disconnectRedis();
     }
@@ -0,0 +1,89 @@
+/**
+ * Search-List Summaries
+ *
+ * The search API already returns price, surface, rooms and photo count for
+ * every listing. Their fingerprint is taken when a listing is queued for a
+ * detail fetch and stored once the detail is; a known listing whose
+ * fingerprint has not changed since then can skip the fetch (see
+ * SUMMARY_MAX_AGE_DAYS).
+ */
+
+import * as crypto from 'crypto';
+
+export interface ListingSummary {
+  price: number | null;
+  surface: number | null;
+  rooms: number | null;
+  photos: number;
+}
+
+/**
+ * Number in a value like 250000, "80 m²" or "3+"
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const match = value.replace(/\./g, '').match(/\d+(,\d+)?/);
+    if (match) return parseFloat(match[0].replace(',', '.'));
+  }
+  return null;
+}
+
+/**
+ * Summary of one search result (the listing or its realEstate wrapper)
+ * Surface, rooms and photos sit on the first property of the listing in
+ * the search API, or on the listing itself in older responses.
+ */
+export function extractListingSummary(listing: any): ListingSummary {
+  const realEstate = listing?.realEstate || listing || {};
+  const property = Array.isArray(realEstate.properties) ? realEstate.properties[0] || {} : {};
+  const photos =
+    property.multimedia?.photos ||
+    property.multimedia?.images ||
+    realEstate.multimedia?.photos ||
+    realEstate.multimedia?.images ||
+    [];
+
+  return {
+    price: toNumber(realEstate.price?.value ?? property.price?.value),
+    surface: toNumber(property.surface ?? realEstate.surface),
+    rooms: toNumber(property.rooms ?? realEstate.rooms),
+    photos: Array.isArray(photos) ? photos.length : 0,
+  };
+}
+
+/**
+ * Compact fingerprint of a summary (16 hex chars)
+ */
+export function summaryFingerprint(summary: ListingSummary): string {
+  const data = [summary.price, summary.surface, summary.rooms, summary.photos].join('|');
+  return crypto.createHash('sha256').update(data).digest('hex').substring(0, 16);
+}
+
+/**
+ * Whether a known listing can skip its detail fetch: its stored fingerprint
+ * (with the time it was last queued) matches and is younger than maxAgeMs
+ * (maxAgeMs 0 = never skip)
+ */
+export function canSkipDetailFetch(
+  stored: { fingerprint: string; queuedAt: number } | null,
+  fingerprint: string,
+  maxAgeMs: number,
+  now: number = Date.now()
+): boolean {
+  if (!stored || maxAgeMs <= 0) return false;
+  return stored.fingerprint === fingerprint && now - stored.queuedAt < maxAgeMs;
+}
+
+/**
+ * Stored form of a fingerprint ("<fingerprint>:<queued at ms>")
+ */
+export function formatStoredSummary(fingerprint: string, queuedAt: number): string {
+  return `${fingerprint}:${queuedAt}`;
+}
+
+export function parseStoredSummary(value: string | null | undefined): { fingerprint: string; queuedAt: number } | null {
+  if (!value) return null;
+  const [fingerprint, queuedAt] = value.split(':');
+  return { fingerprint, queuedAt: parseInt(queuedAt, 10) || 0 };
+}
@@ -0,0 +1,83 @@
+/**
+ * Immobiliare.it Local Runner
+ *
+ * Runs discovery (coordinator) and detail fetching (worker) in one process
+ * on the in-memory queue, rate limiter and scraper store, so neither Redis
+ * nor PostgreSQL is needed. Nothing is persisted.
+ *
+ * Usage:
+ *   npm run local -- --location milano --maxPages 1
+ */
+
+import { config } from './config';
+import { createLogger } from './logger';
+import { MemoryQueue } from './memory-queue';
+import { MemoryRateLimiter } from './rate-limiter';
+import { MemoryEventLog } from './events';
+import { MemoryDatabase } from './memory-database';
+import { ImmobiliareCoordinator } from './coordinator';
+import { ImmobiliareWorker } from './worker';
+import { requireComune } from './geography';
+
+const logger = createLogger('Local');
+
+/**
+ * Get value of a --name option from command line arguments
+ */
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const location = requireComune(getArg(args, 'location') || 'milano').slug;
+  const maxPages = parseInt(getArg(args, 'maxPages') || '1', 10);
+
+  const queue = new MemoryQueue();
+  const rateLimiter = new MemoryRateLimiter();
+  const events = new MemoryEventLog();
+  const db = new MemoryDatabase();
+  const coordinator = new ImmobiliareCoordinator({ queue, db, rateLimiter, events });
+  const worker = new ImmobiliareWorker('local-worker', ['*'], { queue, db, rateLimiter, events });
+
+  try {
+    // Phase 1: discovery
+    await coordinator.initialize();
+    const discovered = await coordinator.scrapeCity(location, config.transactionType, maxPages);
+    await coordinator.close();
+    logger.info(`Discovered ${discovered.ids.length} listings in ${location} (${discovered.newCount} new)`);
+
+    // Phase 2: detail fetching (the worker stops once the queue is drained)
+    await worker.initialize();
+    await worker.start();
+
+    const stats = await queue.getStats();
+    const changes = await queue.getChangeStats();
+    logger.info(
+      `Done: ${stats.processedCount} processed, ${stats.failedCount} failed ` +
+      `(${changes.totals.new} new, ${changes.totals.changed} changed, ${changes.totals.unchanged} unchanged)`
+    );
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  } finally {
+    await worker.close();
+  }
+
+  process.exit(0);
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', async () => {
+  logger.info('\nReceived SIGINT, shutting down gracefully...');
+  process.exit(0);
+});
+
+// Execute
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
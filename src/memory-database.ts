@@ -0,0 +1,435 @@
+/**
+ * In-Memory Scraper Store - Immobiliare.it
+ *
+ * In-process stand-in for the scraper DB with the operations the
+ * coordinator, workers, verifier, refresh jobs, scheduler and run accounting
+ * use (scrape runs, checkpoints, property metadata, shard plans, geographic
+ * areas). Snapshots, geo tiles and health rows are counted, not kept. Nothing is persisted: use it with the
+ * in-memory queue for local single-process runs without PostgreSQL.
+ */
+
+import { createLogger } from './logger';
+import { config, PropertyCategory } from './config';
+import type { ScraperStore } from './database';
+import type { HealthCheck } from './health';
+import { SearchShard, SearchCheckpoint, checkpointKey } from './search-shards';
+
+const logger = createLogger('MemoryDatabase');
+
+type RunType = 'city' | 'search' | 'geo' | 'verify' | 'refresh';
+
+type RunCountField = 'new' | 'changed' | 'unchanged' | 'inactive' | 'errors';
+
+interface RunState {
+  runType: RunType;
+  status: 'running' | 'draining' | 'completed' | 'failed' | 'skipped';
+  triggeredBy?: string;
+  notes?: string;
+  lastActivityAt: number;
+  queuedAt?: Date;
+  cityCounts: Map<string, unknown>; // city/category -> counts
+  checkpoints: Map<string, SearchCheckpoint>; // checkpointKey -> position
+  counts: Record<RunCountField, number>;
+}
+
+interface PropertyMetadata {
+  portal_id: string;
+  first_seen: Date;
+  last_seen: Date;
+  last_changed: Date;
+  current_status: string;
+  current_price: string | null; // numeric column, read back as text
+  scrape_count: number;
+  change_count: number;
+  change_rate: number;
+  updated_at: Date;
+}
+
+interface AreaState {
+  areaType: string;
+  changeRate: number;
+  scrapeIntervalHours: number;
+  lastScraped: Date | null;
+  nextScrape: Date | null;
+}
+
+interface AreaScrape {
+  areaName: string;
+  previousScrape: Date | null;
+  scrapedAt: Date;
+  listingIds: string[];
+  newIds: number;
+}
+
+/** scrape_interval_hours of a newly seeded area (column default) */
+const DEFAULT_SCRAPE_INTERVAL_HOURS = 6;
+
+/** Adaptive scrape interval of an area by change rate (as ScraperDatabase) */
+function scrapeIntervalHours(changeRate: number): number {
+  if (changeRate > 0.20) return 2;
+  if (changeRate > 0.10) return 4;
+  if (changeRate > 0.05) return 6;
+  if (changeRate > 0.02) return 12;
+  return 24;
+}
+
+export class MemoryDatabase implements ScraperStore {
+  private runs = new Map<number, RunState>();
+  private nextRunId = 1;
+  private snapshotCount = 0;
+  private geoTileCount = 0;
+  private healthCount = 0;
+  private metadata = new Map<string, PropertyMetadata>();
+  private shardPlans = new Map<string, SearchShard[]>();
+  private areas = new Map<string, AreaState>();
+  private areaScrapes = new Map<number, Map<string, AreaScrape>>(); // run -> area -> scrape
+
+  async initialize(): Promise<void> {
+    logger.info('In-memory scraper store ready (nothing is persisted)');
+  }
+
+  async close(): Promise<void> {
+    logger.info(
+      `In-memory scraper store closed (${this.snapshotCount} snapshots, ${this.geoTileCount} geo tiles, ` +
+      `${this.healthCount} health rows)`
+    );
+  }
+
+  /**
+   * State of a run (an unknown run ID is a bug)
+   */
+  private run(runId: number): RunState {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new Error(`Unknown scrape run #${runId}`);
+    }
+    return run;
+  }
+
+  // ===== SCRAPE RUNS =====
+
+  async startScrapeRun(runType: RunType, triggeredBy?: string): Promise<number> {
+    const runId = this.nextRunId++;
+    this.runs.set(runId, {
+      runType,
+      status: 'running',
+      triggeredBy,
+      lastActivityAt: Date.now(),
+      cityCounts: new Map(),
+      checkpoints: new Map(),
+      counts: { new: 0, changed: 0, unchanged: 0, inactive: 0, errors: 0 },
+    });
+    logger.info(`Started scrape run #${runId} (${runType}${triggeredBy ? `, ${triggeredBy}` : ''})`);
+    return runId;
+  }
+
+  async recordSkippedRun(runType: RunType, triggeredBy: string, reason: string): Promise<number> {
+    const runId = await this.startScrapeRun(runType, triggeredBy);
+    Object.assign(this.run(runId), { status: 'skipped', notes: reason });
+    return runId;
+  }
+
+  async failScrapeRun(runId: number, error: string): Promise<void> {
+    Object.assign(this.run(runId), { status: 'failed', notes: error });
+    logger.warn(`Scrape run #${runId} failed: ${error}`);
+  }
+
+  async reopenScrapeRun(runType: 'city' | 'search' | 'geo'): Promise<{
+    runId: number;
+    scraped: string[];
+    checkpoints: SearchCheckpoint[];
+  } | null> {
+    const runId = [...this.runs.keys()].reverse().find(id => {
+      const run = this.runs.get(id)!;
+      return run.runType === runType && (run.status === 'running' || run.status === 'failed');
+    });
+    if (runId === undefined) return null;
+
+    const run = this.run(runId);
+    run.status = 'running';
+    logger.info(`Reopened scrape run #${runId} (${runType})`);
+    return { runId, scraped: [...run.cityCounts.keys()], checkpoints: [...run.checkpoints.values()] };
+  }
+
+  async saveCheckpoint(runId: number, checkpoint: SearchCheckpoint): Promise<void> {
+    const run = this.run(runId);
+    run.checkpoints.set(checkpointKey(checkpoint), checkpoint);
+    run.lastActivityAt = Date.now();
+  }
+
+  async recordCityCounts(
+    runId: number,
+    city: string,
+    category: PropertyCategory,
+    counts: {
+      expected: number | null;
+      actual: number;
+      newIds: number;
+      pages: number;
+      totalPages: number | null;
+      shards: number;
+    }
+  ): Promise<void> {
+    const run = this.run(runId);
+    run.cityCounts.set(`${city}/${category}`, { city, category, ...counts });
+    run.lastActivityAt = Date.now();
+  }
+
+  async incrementRunCounts(runId: number, counts: Partial<Record<RunCountField, number>>): Promise<void> {
+    const run = this.run(runId);
+    for (const [field, count] of Object.entries(counts)) {
+      run.counts[field as RunCountField] += count ?? 0;
+    }
+    run.lastActivityAt = Date.now();
+  }
+
+  async markRunDraining(
+    runId: number,
+    stats: { propertiesDiscovered: number; detailFetchesSkipped?: number; notes?: string }
+  ): Promise<void> {
+    const run = this.run(runId);
+    run.status = 'draining';
+    run.queuedAt = new Date();
+    run.notes = stats.notes ?? run.notes;
+    run.checkpoints.clear();
+    logger.info(`Scrape run #${runId} queued, draining`);
+  }
+
+  async finalizeScrapeRun(runId: number, note?: string): Promise<boolean> {
+    const run = this.run(runId);
+    if (run.status !== 'draining') return false;
+    run.status = 'completed';
+    if (note) {
+      run.notes = run.notes ? `${run.notes}; ${note}` : note;
+    }
+    const { new: created, changed, unchanged, errors } = run.counts;
+    logger.info(
+      `Completed scrape run #${runId} (${created} new, ${changed} changed, ${unchanged} unchanged, ${errors} errors)`
+    );
+    return true;
+  }
+
+  async failStaleRuns(staleAfterMinutes: number): Promise<number[]> {
+    const cutoff = Date.now() - staleAfterMinutes * 60000;
+    const runIds: number[] = [];
+    for (const [runId, run] of this.runs) {
+      if (run.status !== 'running' || run.lastActivityAt >= cutoff) continue;
+      run.status = 'failed';
+      run.notes = [run.notes, `No activity for ${staleAfterMinutes} minutes`].filter(Boolean).join('; ');
+      runIds.push(runId);
+    }
+    if (runIds.length > 0) {
+      logger.warn(`Marked stale scrape runs as failed: #${runIds.join(', #')}`);
+    }
+    return runIds;
+  }
+
+  async getDrainingRuns(): Promise<Array<{ runId: number; queuedAt: Date }>> {
+    return [...this.runs]
+      .filter(([, run]) => run.status === 'draining')
+      .map(([runId, run]) => ({ runId, queuedAt: run.queuedAt! }));
+  }
+
+  // ===== PROPERTIES =====
+
+  async storeSnapshot(portalId: string, rawData: any, checksum: string): Promise<number> {
+    return ++this.snapshotCount;
+  }
+
+  async updatePropertyMetadata(
+    portalId: string,
+    data: {
+      firstSeen?: Date;
+      lastSeen: Date;
+      lastChanged?: Date;
+      currentStatus: string;
+      currentPrice: number | null;
+      hasChanges: boolean;
+    }
+  ): Promise<void> {
+    const previous = this.metadata.get(portalId);
+    const scrapeCount = (previous?.scrape_count ?? 0) + 1;
+    const changeCount = (previous?.change_count ?? 0) + (data.hasChanges ? 1 : 0);
+    this.metadata.set(portalId, {
+      portal_id: portalId,
+      first_seen: previous?.first_seen ?? data.firstSeen ?? data.lastSeen,
+      last_seen: data.lastSeen,
+      last_changed: !previous || data.hasChanges ? (data.lastChanged ?? data.lastSeen) : previous.last_changed,
+      current_status: data.currentStatus,
+      current_price: data.currentPrice === null ? null : String(data.currentPrice),
+      scrape_count: scrapeCount,
+      change_count: changeCount,
+      change_rate: previous ? changeCount / scrapeCount : 0,
+      updated_at: new Date(),
+    });
+  }
+
+  async getPropertyMetadata(portalId: string): Promise<any | null> {
+    return this.metadata.get(portalId) ?? null;
+  }
+
+  async getListingChangeSummary(portalIds: string[], changedSince: Date | null): Promise<{
+    known: number;
+    active: number;
+    changedSince: number;
+    avgChangeRate: number;
+  }> {
+    const rows = portalIds.map(id => this.metadata.get(id)).filter((row): row is PropertyMetadata => !!row);
+    return {
+      known: rows.length,
+      active: rows.filter(row => row.current_status === 'active').length,
+      changedSince: changedSince === null ? 0 : rows.filter(row =>
+        row.first_seen <= changedSince && row.last_changed > changedSince
+      ).length,
+      avgChangeRate: rows.length === 0 ? 0 : rows.reduce((sum, row) => sum + row.change_rate, 0) / rows.length,
+    };
+  }
+
+  async getChangeRates(portalIds: string[]): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    for (const id of portalIds) {
+      const row = this.metadata.get(id);
+      if (row) rates.set(id, row.change_rate);
+    }
+    return rates;
+  }
+
+  async getHighChangeProperties(limit: number = 1000): Promise<string[]> {
+    const seenSince = Date.now() - 7 * 24 * 3600000;
+    return [...this.metadata.values()]
+      .filter(row =>
+        row.change_rate > config.highChangeRateThreshold &&
+        row.current_status === 'active' &&
+        row.last_seen.getTime() > seenSince
+      )
+      .sort((a, b) => b.change_rate - a.change_rate || b.last_changed.getTime() - a.last_changed.getTime())
+      .slice(0, limit)
+      .map(row => row.portal_id);
+  }
+
+  async getPropertiesDueForRefresh(
+    hoursThreshold: number = 24,
+    limit: number = 10000
+  ): Promise<Array<{ portalId: string; changeRate: number }>> {
+    const updatedBefore = Date.now() - hoursThreshold * 3600000;
+    return [...this.metadata.values()]
+      .filter(row => row.current_status === 'active' && row.updated_at.getTime() < updatedBefore)
+      .sort((a, b) => a.updated_at.getTime() - b.updated_at.getTime())
+      .slice(0, limit)
+      .map(row => ({ portalId: row.portal_id, changeRate: row.change_rate }));
+  }
+
+  // ===== DISCOVERY PLANNING =====
+
+  async getShardPlan(
+    city: string,
+    transactionType: 'sale' | 'rent',
+    category: PropertyCategory
+  ): Promise<SearchShard[] | null> {
+    return this.shardPlans.get(`${city}/${transactionType}/${category}`) ?? null;
+  }
+
+  async saveShardPlan(
+    city: string,
+    transactionType: 'sale' | 'rent',
+    category: PropertyCategory,
+    shards: SearchShard[]
+  ): Promise<void> {
+    this.shardPlans.set(`${city}/${transactionType}/${category}`, shards);
+  }
+
+  async recordGeoTile(): Promise<void> {
+    this.geoTileCount++;
+  }
+
+  async updateAreaStats(
+    areaName: string,
+    areaType: 'city' | 'region',
+    stats: {
+      changeRate: number;
+      totalProperties: number;
+      activeProperties: number;
+      avgChangesPerScrape: number;
+      scrapedAt: Date;
+    }
+  ): Promise<void> {
+    const intervalHours = scrapeIntervalHours(stats.changeRate);
+    this.areas.set(areaName, {
+      areaType,
+      changeRate: stats.changeRate,
+      scrapeIntervalHours: intervalHours,
+      lastScraped: stats.scrapedAt,
+      nextScrape: new Date(stats.scrapedAt.getTime() + intervalHours * 3600000),
+    });
+  }
+
+  async recordAreaScrape(
+    runId: number,
+    areaName: string,
+    scrape: { listingIds: string[]; newIds: number; previousScrape: Date | null }
+  ): Promise<void> {
+    const scrapedAt = new Date();
+    if (!this.areaScrapes.has(runId)) {
+      this.areaScrapes.set(runId, new Map());
+    }
+    this.areaScrapes.get(runId)!.set(areaName, { areaName, scrapedAt, ...scrape });
+
+    const area = this.areas.get(areaName);
+    if (area) {
+      area.lastScraped = scrapedAt;
+      area.nextScrape = new Date(scrapedAt.getTime() + area.scrapeIntervalHours * 3600000);
+    }
+  }
+
+  async takeAreaScrapes(runId: number): Promise<AreaScrape[]> {
+    const scrapes = [...(this.areaScrapes.get(runId)?.values() ?? [])];
+    this.areaScrapes.delete(runId);
+    return scrapes;
+  }
+
+  async getAreasDueForScraping(areaType?: 'city' | 'region', areaNames?: string[]): Promise<Array<{
+    areaName: string;
+    areaType: string;
+    changeRate: number;
+    scrapeIntervalHours: number;
+    lastScraped: Date | null;
+    nextScrape: Date | null;
+  }>> {
+    const now = Date.now();
+    return [...this.areas]
+      .filter(([areaName, area]) =>
+        (area.nextScrape === null || area.nextScrape.getTime() <= now) &&
+        (areaType === undefined || area.areaType === areaType) &&
+        (areaNames === undefined || areaNames.includes(areaName))
+      )
+      .map(([areaName, area]) => ({ areaName, ...area }))
+      .sort((a, b) =>
+        b.changeRate - a.changeRate ||
+        (a.nextScrape?.getTime() ?? -Infinity) - (b.nextScrape?.getTime() ?? -Infinity)
+      )
+      .slice(0, 100);
+  }
+
+  async seedAreas(areaNames: string[], areaType: 'city' | 'region'): Promise<number> {
+    let added = 0;
+    for (const areaName of areaNames) {
+      if (this.areas.has(areaName)) continue;
+      this.areas.set(areaName, {
+        areaType,
+        changeRate: 0,
+        scrapeIntervalHours: DEFAULT_SCRAPE_INTERVAL_HOURS,
+        lastScraped: null,
+        nextScrape: new Date(),
+      });
+      added++;
+    }
+    return added;
+  }
+
+  // ===== HEALTH =====
+
+  async recordHealth(health: HealthCheck): Promise<void> {
+    this.healthCount++;
+    logger.debug(`Health: queue depth ${health.queueDepth}, ${health.workerCount} workers`);
+  }
+}
@@ -0,0 +1,782 @@
+/**
+ * In-Memory Queue - Immobiliare.it
+ *
+ * In-process implementation of QueueBackend with the same semantics as
+ * RedisQueue (segments, lanes, epochs, leases, retries, dead letters,
+ * worker registry, change counters). Nothing is persisted and nothing is
+ * shared between processes: use it for local single-process runs and tests.
+ */
+
+import { createLogger } from './logger';
+import { config, PropertyCategory, DEFAULT_CATEGORY } from './config';
+import { delay } from './utils';
+import { canSkipDetailFetch } from './listing-summaries';
+import {
+  QueueBackend,
+  QueueLane,
+  QUEUE_LANES,
+  QueueRoute,
+  QueuedListing,
+  QueueStats,
+  SegmentStats,
+  EpochStats,
+  ChangeOutcome,
+  ChangeCounters,
+  ChangeRollup,
+  ChangeStats,
+  DeadLetterRecord,
+  DeadLetterDetails,
+  DeadLetterFilter,
+  WorkerInfo,
+  RecoveredWorker,
+  PropertySnapshot,
+  defaultSegment,
+  matchesSegment,
+  weightedLaneOrder,
+  changeBucket,
+  calculatePropertyChecksum,
+  matchesDeadLetterFilter,
+} from './queue-backend';
+
+const logger = createLogger('MemoryQueue');
+
+/** Poll interval while waiting for a pop */
+const POP_POLL_INTERVAL_MS = 100;
+
+interface EpochState {
+  startedAt: string;
+  runId?: number;
+  newCount: number;
+  failed: number;
+  queued: Set<string>;
+  processed: Set<string>;
+  skipped: Set<string>;
+}
+
+interface SegmentState {
+  lanes: Record<QueueLane, string[]>; // Oldest first
+  allIds: Set<string>;
+  processed: Set<string>;
+  epoch: number;
+  epochs: Map<number, EpochState>;
+}
+
+function emptyCounters(): ChangeCounters {
+  return { new: 0, changed: 0, unchanged: 0 };
+}
+
+export class MemoryQueue implements QueueBackend {
+  private startedAt: string | null = null;
+  private segments = new Map<string, SegmentState>();
+  private routes = new Map<string, QueueRoute>();
+  private categories = new Map<string, PropertyCategory>();
+  private summaries = new Map<string, { fingerprint: string; queuedAt: number }>();
+  private pendingSummaries = new Map<string, { fingerprint: string; queuedAt: number }>(); // until processed
+  private runs = new Map<number, { pending: number; queued: boolean; finalized: boolean; ids: Set<string> }>();
+  private leases = new Map<string, { deadline: number; workerId: string }>();
+  private retries = new Map<string, number>();
+  private retrySchedule = new Map<string, number>();
+  private failedIds = new Set<string>();
+  private deadLetters = new Map<string, DeadLetterRecord>();
+  private workers = new Map<string, WorkerInfo>();
+  private lastSeen = new Map<string, number>();
+  private missingQueue: string[] = [];
+  private verifiedInactive = new Set<string>();
+  private snapshots = new Map<string, PropertySnapshot>();
+  private changeTotals: ChangeCounters = emptyCounters();
+  private changeRollups = { hour: new Map<string, ChangeCounters>(), day: new Map<string, ChangeCounters>() };
+
+  async initialize(): Promise<void> {
+    if (!this.startedAt) {
+      this.startedAt = new Date().toISOString();
+    }
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release (the queue may be shared by several components)
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  // ===== SEGMENTS =====
+
+  /**
+   * Get (or create) the state of a segment
+   */
+  private segment(segment: string): SegmentState {
+    let state = this.segments.get(segment);
+    if (!state) {
+      state = {
+        lanes: { new: [], high_change: [], refresh: [], verify: [] },
+        allIds: new Set(),
+        processed: new Set(),
+        epoch: 0,
+        epochs: new Map(),
+      };
+      this.segments.set(segment, state);
+    }
+    return state;
+  }
+
+  /**
+   * Get the current epoch of a segment (epoch 0 exists implicitly)
+   */
+  private currentEpoch(segment: string): EpochState {
+    const state = this.segment(segment);
+    let epoch = state.epochs.get(state.epoch);
+    if (!epoch) {
+      epoch = { startedAt: new Date().toISOString(), newCount: 0, failed: 0, queued: new Set(), processed: new Set(), skipped: new Set() };
+      state.epochs.set(state.epoch, epoch);
+    }
+    return epoch;
+  }
+
+  private routeOf(id: string): QueueRoute {
+    return this.routes.get(id) || { segment: defaultSegment(), lane: 'new' };
+  }
+
+  /**
+   * Slice state of a run (created on first use)
+   */
+  private run(runId: number): { pending: number; queued: boolean; finalized: boolean; ids: Set<string> } {
+    let run = this.runs.get(runId);
+    if (!run) {
+      run = { pending: 0, queued: false, finalized: false, ids: new Set() };
+      this.runs.set(runId, run);
+    }
+    return run;
+  }
+
+  /**
+   * Settle an ID in the slice of the run that queued it
+   */
+  private settle(id: string): void {
+    const { runId } = this.routeOf(id);
+    if (runId !== undefined) {
+      this.run(runId).pending--;
+    }
+  }
+
+  /**
+   * Put an ID back on the lane of its route
+   */
+  private requeue(id: string): void {
+    const { segment, lane } = this.routeOf(id);
+    this.segment(segment).lanes[lane].push(id);
+  }
+
+  async getSegments(): Promise<string[]> {
+    return [...this.segments.keys()].sort();
+  }
+
+  async resolveSegments(patterns: string[]): Promise<string[]> {
+    const segments = await this.getSegments();
+    return segments.filter(segment => patterns.some(pattern => matchesSegment(segment, pattern)));
+  }
+
+  // ===== EPOCHS =====
+
+  async openEpoch(runId?: number, segment: string = defaultSegment()): Promise<number> {
+    const state = this.segment(segment);
+    state.epoch++;
+    state.epochs.set(state.epoch, {
+      startedAt: new Date().toISOString(),
+      runId,
+      newCount: 0,
+      failed: 0,
+      queued: new Set(),
+      processed: new Set(),
+      skipped: new Set(),
+    });
+
+    for (const old of state.epochs.keys()) {
+      if (old <= state.epoch - config.epochRetention) {
+        state.epochs.delete(old);
+      }
+    }
+
+    logger.info(`Opened epoch ${segment}#${state.epoch}${runId !== undefined ? ` for run #${runId}` : ''}`);
+    return state.epoch;
+  }
+
+  async getCurrentEpoch(segment: string = defaultSegment()): Promise<number> {
+    return this.segments.get(segment)?.epoch || 0;
+  }
+
+  async getEpochStats(epoch?: number, segment: string = defaultSegment()): Promise<EpochStats> {
+    const target = epoch ?? await this.getCurrentEpoch(segment);
+    const state = this.segments.get(segment)?.epochs.get(target);
+    return {
+      epoch: target,
+      runId: state?.runId,
+      startedAt: state?.startedAt,
+      queued: state?.queued.size || 0,
+      newCount: state?.newCount || 0,
+      skipped: state?.skipped.size || 0,
+      processed: state?.processed.size || 0,
+      failed: state?.failed || 0,
+    };
+  }
+
+  async listEpochs(segment: string = defaultSegment()): Promise<EpochStats[]> {
+    const current = await this.getCurrentEpoch(segment);
+    const epochs: EpochStats[] = [];
+    for (let epoch = current; epoch > 0 && epoch > current - config.epochRetention; epoch--) {
+      epochs.push(await this.getEpochStats(epoch, segment));
+    }
+    return epochs;
+  }
+
+  // ===== QUEUE =====
+
+  async pushListingId(id: string, segment: string = defaultSegment()): Promise<boolean> {
+    const alreadyQueued = this.currentEpoch(segment).queued.has(id);
+    await this.pushListingIds([id], { segment });
+    return !alreadyQueued;
+  }
+
+  async pushListingIds(
+    ids: string[],
+    options: {
+      segment?: string;
+      category?: PropertyCategory;
+      laneOf?: (id: string) => QueueLane;
+      summaries?: Map<string, string>;
+    } = {}
+  ): Promise<string[]> {
+    const segment = options.segment || defaultSegment();
+    const state = this.segment(segment);
+    const epoch = this.currentEpoch(segment);
+    const now = Date.now();
+    const summaryMaxAgeMs = config.summaryMaxAgeDays * 24 * 60 * 60 * 1000;
+    const newIds: string[] = [];
+
+    for (const id of ids) {
+      const isNew = !state.allIds.has(id);
+      state.allIds.add(id);
+      this.lastSeen.set(id, now);
+      if (options.category) {
+        this.categories.set(id, options.category);
+      }
+      if (isNew) {
+        newIds.push(id);
+        epoch.newCount++;
+      }
+      if (epoch.queued.has(id)) continue;
+
+      const fingerprint = options.summaries?.get(id);
+      if (fingerprint !== undefined) {
+        if (!isNew && canSkipDetailFetch(this.summaries.get(id) || null, fingerprint, summaryMaxAgeMs, now)) {
+          epoch.skipped.add(id);
+          continue;
+        }
+        this.pendingSummaries.set(id, { fingerprint, queuedAt: now });
+      }
+
+      epoch.queued.add(id);
+      const lane: QueueLane = isNew ? 'new' : (options.laneOf?.(id) || 'refresh');
+      this.routes.set(id, { segment, lane, runId: epoch.runId });
+      if (epoch.runId !== undefined) {
+        this.run(epoch.runId).pending++;
+      }
+      state.lanes[lane].push(id);
+    }
+
+    return newIds;
+  }
+
+  async enqueueRefresh(ids: string[], lane: QueueLane, runId?: number): Promise<number> {
+    let queuedCount = 0;
+    for (const id of ids) {
+      const { segment } = this.routeOf(id);
+      const epoch = this.currentEpoch(segment);
+      if (runId === undefined) {
+        if (epoch.queued.has(id)) continue;
+      } else {
+        const run = this.run(runId);
+        const seenInRun = run.ids.has(id);
+        run.ids.add(id);
+        if (seenInRun || (epoch.queued.has(id) && !epoch.processed.has(id))) continue;
+        epoch.processed.delete(id);
+        run.pending++;
+      }
+
+      epoch.queued.add(id);
+      this.routes.set(id, { segment, lane, runId });
+      this.segment(segment).lanes[lane].push(id);
+      queuedCount++;
+    }
+    return queuedCount;
+  }
+
+  async popListing(
+    timeoutSeconds: number = 5,
+    workerId?: string,
+    segments?: string[]
+  ): Promise<QueuedListing | null> {
+    const waitUntil = Date.now() + timeoutSeconds * 1000;
+
+    while (true) {
+      const targets = segments || await this.getSegments();
+      for (const lane of weightedLaneOrder(config.laneWeights)) {
+        for (const segment of targets) {
+          const id = this.segments.get(segment)?.lanes[lane].shift();
+          if (id === undefined) continue;
+
+          if (workerId) {
+            this.leases.set(id, { deadline: Date.now() + config.leaseTimeoutMs, workerId });
+          }
+          return {
+            id,
+            segment,
+            lane,
+            category: this.categories.get(id) || DEFAULT_CATEGORY,
+            runId: this.routeOf(id).runId,
+          };
+        }
+      }
+
+      if (Date.now() >= waitUntil) {
+        return null;
+      }
+      await delay(POP_POLL_INTERVAL_MS);
+    }
+  }
+
+  async acknowledge(id: string): Promise<void> {
+    this.leases.delete(id);
+    this.settle(id);
+  }
+
+  async extendLeases(workerId: string): Promise<number> {
+    const deadline = Date.now() + config.leaseTimeoutMs;
+    let extended = 0;
+    for (const lease of this.leases.values()) {
+      if (lease.workerId !== workerId) continue;
+      lease.deadline = deadline;
+      extended++;
+    }
+    return extended;
+  }
+
+  async reclaimExpiredLeases(): Promise<string[]> {
+    const now = Date.now();
+    const reclaimed: string[] = [];
+    for (const [id, lease] of this.leases) {
+      if (lease.deadline > now) continue;
+      this.leases.delete(id);
+      this.requeue(id);
+      reclaimed.push(id);
+    }
+
+    if (reclaimed.length > 0) {
+      logger.warn(`Reclaimed ${reclaimed.length} expired leases`);
+    }
+    return reclaimed;
+  }
+
+  async getInFlightCount(): Promise<number> {
+    return this.leases.size;
+  }
+
+  // ===== RUN SLICES =====
+
+  async markRunQueued(runId: number): Promise<void> {
+    this.run(runId).queued = true;
+  }
+
+  async claimRunFinalization(runId: number): Promise<boolean> {
+    const run = this.run(runId);
+    if (!run.queued || run.pending > 0 || run.finalized) {
+      return false;
+    }
+    run.finalized = true;
+    return true;
+  }
+
+  // ===== RESULTS, RETRIES & DEAD LETTERS =====
+
+  async isProcessed(id: string): Promise<boolean> {
+    return this.currentEpoch(this.routeOf(id).segment).processed.has(id);
+  }
+
+  async markProcessed(id: string, outcome?: ChangeOutcome): Promise<void> {
+    const { segment } = this.routeOf(id);
+    this.segment(segment).processed.add(id);
+    this.currentEpoch(segment).processed.add(id);
+    this.leases.delete(id);
+    this.settle(id);
+    const summary = this.pendingSummaries.get(id);
+    if (summary) {
+      this.summaries.set(id, summary);
+      this.pendingSummaries.delete(id);
+    }
+    if (outcome) {
+      this.countChange(outcome);
+    }
+  }
+
+  async markFailed(id: string, error?: string, details: DeadLetterDetails = {}): Promise<void> {
+    const now = Date.now();
+    const previous = this.deadLetters.get(id);
+    this.deadLetters.set(id, {
+      id,
+      error: error || 'Unknown error',
+      errorClass: details.errorClass || 'unknown',
+      httpStatus: details.httpStatus,
+      strategy: details.strategy,
+      attempts: details.attempts ?? ((this.retries.get(id) || 0) + 1),
+      workerId: details.workerId,
+      firstFailedAt: previous?.firstFailedAt || now,
+      failedAt: now,
+    });
+    this.failedIds.add(id);
+    this.currentEpoch(this.routeOf(id).segment).failed++;
+    this.leases.delete(id);
+    this.summaries.delete(id);
+    this.pendingSummaries.delete(id);
+    this.settle(id);
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetterRecord | null> {
+    return this.deadLetters.get(id) || null;
+  }
+
+  async getDeadLetters(filter: DeadLetterFilter = {}): Promise<DeadLetterRecord[]> {
+    return [...this.deadLetters.values()]
+      .filter(record =>
+        (filter.since === undefined || record.failedAt >= filter.since) &&
+        (filter.until === undefined || record.failedAt <= filter.until) &&
+        matchesDeadLetterFilter(record, filter)
+      )
+      .sort((a, b) => a.failedAt - b.failedAt);
+  }
+
+  /**
+   * Remove IDs from the failed set and dead letters and put them back on their
+   * lanes, detached from the run that queued them (it settled them as failed)
+   */
+  private requeueFailed(ids: string[]): void {
+    for (const id of ids) {
+      this.failedIds.delete(id);
+      this.deadLetters.delete(id);
+      this.retries.delete(id);
+      const { segment, lane } = this.routeOf(id);
+      this.routes.set(id, { segment, lane });
+      this.requeue(id);
+    }
+  }
+
+  async replayDeadLetters(filter: DeadLetterFilter = {}): Promise<number> {
+    const records = await this.getDeadLetters(filter);
+    this.requeueFailed(records.map(record => record.id));
+    if (records.length > 0) {
+      logger.info(`Replayed ${records.length} dead letters`);
+    }
+    return records.length;
+  }
+
+  async incrementRetry(id: string): Promise<number> {
+    const retries = (this.retries.get(id) || 0) + 1;
+    this.retries.set(id, retries);
+    return retries;
+  }
+
+  async getRetryCount(id: string): Promise<number> {
+    return this.retries.get(id) || 0;
+  }
+
+  async requeueWithRetry(id: string, maxRetries: number = 3, delayMs: number = 0): Promise<boolean> {
+    const retries = await this.incrementRetry(id);
+    if (retries > maxRetries) {
+      await this.markFailed(id, `Max retries (${maxRetries}) exceeded`);
+      return false;
+    }
+
+    if (delayMs > 0) {
+      this.retrySchedule.set(id, Date.now() + delayMs);
+    } else {
+      this.requeue(id);
+    }
+    this.leases.delete(id);
+    return true;
+  }
+
+  async promoteDueRetries(limit: number = 1000): Promise<number> {
+    const now = Date.now();
+    const due = [...this.retrySchedule]
+      .filter(([, dueAt]) => dueAt <= now)
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, limit);
+
+    for (const [id] of due) {
+      this.retrySchedule.delete(id);
+      this.requeue(id);
+    }
+    return due.length;
+  }
+
+  async getScheduledRetryCount(): Promise<number> {
+    return this.retrySchedule.size;
+  }
+
+  async getFailedIds(): Promise<string[]> {
+    return [...this.failedIds];
+  }
+
+  async retryFailedListings(): Promise<number> {
+    const failedIds = [...this.failedIds];
+    this.requeueFailed(failedIds);
+    if (failedIds.length > 0) {
+      logger.info(`Re-queued ${failedIds.length} failed listings`);
+    }
+    return failedIds.length;
+  }
+
+  // ===== STATISTICS =====
+
+  async getStats(segments?: string[]): Promise<QueueStats> {
+    const targets = segments || await this.getSegments();
+    const laneDepths = Object.fromEntries(QUEUE_LANES.map(lane => [lane, 0])) as Record<QueueLane, number>;
+    let totalDiscovered = 0;
+    let processedCount = 0;
+
+    for (const segment of targets) {
+      const state = this.segments.get(segment);
+      if (!state) continue;
+      totalDiscovered += state.allIds.size;
+      processedCount += state.processed.size;
+      for (const lane of QUEUE_LANES) {
+        laneDepths[lane] += state.lanes[lane].length;
+      }
+    }
+    const queueDepth = Object.values(laneDepths).reduce((sum, depth) => sum + depth, 0);
+
+    return {
+      queueDepth,
+      laneDepths,
+      totalDiscovered,
+      processedCount,
+      failedCount: this.failedIds.size,
+      inFlight: this.leases.size,
+      retryScheduled: this.retrySchedule.size,
+      remaining: queueDepth,
+      startedAt: this.startedAt || undefined,
+    };
+  }
+
+  async getSegmentStats(segments?: string[]): Promise<SegmentStats[]> {
+    const targets = segments || await this.getSegments();
+    const results: SegmentStats[] = [];
+
+    for (const segment of targets) {
+      const stats = await this.getStats([segment]);
+      const epoch = await this.getEpochStats(undefined, segment);
+      results.push({
+        segment,
+        queueDepth: stats.queueDepth,
+        laneDepths: stats.laneDepths,
+        totalDiscovered: stats.totalDiscovered,
+        processedCount: stats.processedCount,
+        epoch,
+        progress: epoch.queued === 0 ? 0 : (epoch.processed / epoch.queued) * 100,
+      });
+    }
+
+    return results;
+  }
+
+  async getProgress(segment: string = defaultSegment()): Promise<number> {
+    const stats = await this.getEpochStats(undefined, segment);
+    if (stats.queued === 0) return 0;
+    return (stats.processed / stats.queued) * 100;
+  }
+
+  async clear(): Promise<void> {
+    this.startedAt = null;
+    this.segments.clear();
+    this.routes.clear();
+    this.categories.clear();
+    this.summaries.clear();
+    this.pendingSummaries.clear();
+    this.runs.clear();
+    this.leases.clear();
+    this.retries.clear();
+    this.retrySchedule.clear();
+    this.failedIds.clear();
+    this.deadLetters.clear();
+    this.workers.clear();
+    logger.warn('Queue data cleared');
+  }
+
+  // ===== WORKER REGISTRY =====
+
+  async heartbeatWorker(info: Omit<WorkerInfo, 'heartbeatAt'>): Promise<void> {
+    this.workers.set(info.workerId, { ...info, heartbeatAt: Date.now() });
+  }
+
+  async unregisterWorker(workerId: string): Promise<void> {
+    this.workers.delete(workerId);
+  }
+
+  async getWorkers(): Promise<WorkerInfo[]> {
+    return [...this.workers.values()].sort((a, b) => a.workerId.localeCompare(b.workerId));
+  }
+
+  async recoverStaleWorkers(staleAfterMs: number = config.workerStaleAfterMs): Promise<RecoveredWorker[]> {
+    const cutoff = Date.now() - staleAfterMs;
+    const recovered: RecoveredWorker[] = [];
+
+    for (const info of [...this.workers.values()]) {
+      if (info.heartbeatAt > cutoff) continue;
+
+      const recoveredIds: string[] = [];
+      for (const [id, lease] of this.leases) {
+        if (lease.workerId !== info.workerId) continue;
+        this.leases.delete(id);
+        this.requeue(id);
+        recoveredIds.push(id);
+      }
+      if (info.kind === 'verifier' && info.currentListing) {
+        this.missingQueue.push(info.currentListing);
+        recoveredIds.push(info.currentListing);
+      }
+
+      this.workers.delete(info.workerId);
+      logger.warn(`Recovered stale ${info.kind} ${info.workerId} (${recoveredIds.length} listings re-queued)`);
+      recovered.push({ workerId: info.workerId, kind: info.kind, recoveredIds });
+    }
+
+    return recovered;
+  }
+
+  // ===== LAST SEEN & MISSING PROPERTY TRACKING =====
+
+  async updateLastSeen(id: string): Promise<void> {
+    this.lastSeen.set(id, Date.now());
+  }
+
+  async getLastSeen(id: string): Promise<number | null> {
+    return this.lastSeen.get(id) ?? null;
+  }
+
+  async findMissingProperties(hoursThreshold: number = 12): Promise<string[]> {
+    const cutoffTime = Date.now() - (hoursThreshold * 60 * 60 * 1000);
+    return [...this.lastSeen]
+      .filter(([, timestamp]) => timestamp < cutoffTime)
+      .map(([id]) => id);
+  }
+
+  async pushToMissingQueue(ids: string[]): Promise<number> {
+    const toQueue = ids.filter(id => !this.verifiedInactive.has(id));
+    this.missingQueue.push(...toQueue);
+    return toQueue.length;
+  }
+
+  async popFromMissingQueue(timeoutSeconds: number = 5): Promise<string | null> {
+    const waitUntil = Date.now() + timeoutSeconds * 1000;
+    while (true) {
+      const id = this.missingQueue.shift();
+      if (id !== undefined) return id;
+      if (Date.now() >= waitUntil) return null;
+      await delay(POP_POLL_INTERVAL_MS);
+    }
+  }
+
+  async markVerifiedInactive(id: string): Promise<void> {
+    this.verifiedInactive.add(id);
+    this.segments.get(this.routeOf(id).segment)?.processed.delete(id);
+    this.lastSeen.delete(id);
+  }
+
+  async markReactivated(id: string): Promise<boolean> {
+    return this.verifiedInactive.delete(id);
+  }
+
+  async isVerifiedInactive(id: string): Promise<boolean> {
+    return this.verifiedInactive.has(id);
+  }
+
+  async getVerifiedInactiveCount(): Promise<number> {
+    return this.verifiedInactive.size;
+  }
+
+  async getMissingQueueDepth(): Promise<number> {
+    return this.missingQueue.length;
+  }
+
+  // ===== SNAPSHOTS & CHANGE COUNTERS =====
+
+  async storePropertySnapshot(id: string, property: any): Promise<void> {
+    this.snapshots.set(id, {
+      checksum: calculatePropertyChecksum(property),
+      price: property.price?.value || 0,
+      title: property.title || '',
+      surface: property.surface || 0,
+      updated_at: Date.now(),
+    });
+  }
+
+  async getPropertySnapshot(id: string): Promise<PropertySnapshot | null> {
+    return this.snapshots.get(id) || null;
+  }
+
+  async detectChange(id: string, currentProperty: any): Promise<ChangeOutcome> {
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot) {
+      return 'new';
+    }
+    return snapshot.checksum !== calculatePropertyChecksum(currentProperty) ? 'changed' : 'unchanged';
+  }
+
+  async hasPropertyChanged(id: string, currentProperty: any): Promise<boolean> {
+    return (await this.detectChange(id, currentProperty)) !== 'unchanged';
+  }
+
+  /**
+   * Count a change outcome (total, hourly, daily); expired buckets are dropped
+   */
+  private countChange(outcome: ChangeOutcome): void {
+    const now = Date.now();
+    const retentionMs = {
+      hour: config.changeStatsHourlyRetentionHours * 3600000,
+      day: config.changeStatsDailyRetentionDays * 86400000,
+    };
+
+    this.changeTotals[outcome]++;
+    for (const granularity of ['hour', 'day'] as const) {
+      const rollups = this.changeRollups[granularity];
+      const bucket = changeBucket(granularity, now);
+      if (!rollups.has(bucket)) {
+        const oldest = changeBucket(granularity, now - retentionMs[granularity]);
+        for (const key of rollups.keys()) {
+          if (key < oldest) rollups.delete(key);
+        }
+        rollups.set(bucket, emptyCounters());
+      }
+      rollups.get(bucket)![outcome]++;
+    }
+  }
+
+  async getChangeRollups(granularity: 'hour' | 'day', count: number): Promise<ChangeRollup[]> {
+    const step = granularity === 'hour' ? 3600000 : 86400000;
+    const now = Date.now();
+    return Array.from({ length: count }, (_, idx) => {
+      const bucket = changeBucket(granularity, now - idx * step);
+      return { bucket, ...(this.changeRollups[granularity].get(bucket) || emptyCounters()) };
+    });
+  }
+
+  async getChangeStats(): Promise<ChangeStats> {
+    const now = Date.now();
+    return {
+      totalSnapshots: this.snapshots.size,
+      snapshotsWithChanges: this.changeTotals.changed,
+      totals: { ...this.changeTotals },
+      lastHour: { ...(this.changeRollups.hour.get(changeBucket('hour', now)) || emptyCounters()) },
+      today: { ...(this.changeRollups.day.get(changeBucket('day', now)) || emptyCounters()) },
+    };
+  }
+}
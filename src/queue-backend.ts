@@ -0,0 +1,359 @@
+/**
+ * Queue Backend - Immobiliare.it
+ *
+ * Interface shared by the queue implementations, plus the types and
+ * helpers they have in common:
+ * - RedisQueue: distributed queue (production)
+ * - MemoryQueue: in-process queue for local single-process runs and tests
+ *
+ * Select the backend with QUEUE_BACKEND (see createQueue in ./queue).
+ */
+
+import * as crypto from 'crypto';
+import { config, PropertyCategory } from './config';
+import type { FailureClass, FetchStrategy } from './failures';
+
+/**
+ * Priority lanes
+ * - new: IDs never seen before
+ * - high_change: known IDs whose change rate is above the threshold
+ * - refresh: routine refresh of known IDs
+ * - verify: IDs the verifier found still online but missing from searches
+ */
+export type QueueLane = 'new' | 'high_change' | 'refresh' | 'verify';
+
+export const QUEUE_LANES: QueueLane[] = ['new', 'high_change', 'refresh', 'verify'];
+
+/**
+ * Routing info stored per queued ID (used to requeue it onto the right lane)
+ */
+export interface QueueRoute {
+  segment: string;
+  lane: QueueLane;
+  runId?: number; // scrape run the ID was queued by (results are counted on it)
+}
+
+/**
+ * Segment name for a transaction type and optional city,
+ * e.g. 'sale' or 'rent:milano'
+ */
+export function segmentOf(transactionType: string, city?: string): string {
+  return city ? `${transactionType}:${city.toLowerCase()}` : transactionType;
+}
+
+/**
+ * Segment used for IDs queued without one (and for pre-segment data)
+ */
+export function defaultSegment(): string {
+  return segmentOf(config.transactionType);
+}
+
+/**
+ * Check a segment against a subscription pattern:
+ * '*' matches everything, 'sale' matches 'sale' and every 'sale:<city>',
+ * 'rent:milano' matches only itself
+ */
+export function matchesSegment(segment: string, pattern: string): boolean {
+  return pattern === '*' || segment === pattern || segment.startsWith(`${pattern}:`);
+}
+
+/**
+ * Listing popped from the queue (category it was discovered in)
+ */
+export interface QueuedListing extends QueueRoute {
+  id: string;
+  category: PropertyCategory;
+}
+
+/**
+ * Order lanes for one pop: weighted random without replacement, so every
+ * non-empty lane is eventually drained but heavier lanes usually go first
+ */
+export function weightedLaneOrder(weights: Record<QueueLane, number>): QueueLane[] {
+  const remaining = [...QUEUE_LANES];
+  const order: QueueLane[] = [];
+
+  while (remaining.length > 0) {
+    const total = remaining.reduce((sum, lane) => sum + Math.max(weights[lane] || 0, 0), 0);
+    let pick = Math.random() * total;
+    let index = remaining.findIndex(lane => (pick -= Math.max(weights[lane] || 0, 0)) < 0);
+    if (index < 0) index = 0; // All remaining weights are zero
+    order.push(remaining.splice(index, 1)[0]);
+  }
+
+  return order;
+}
+
+export interface QueueStats {
+  queueDepth: number;
+  laneDepths: Record<QueueLane, number>;
+  totalDiscovered: number;
+  processedCount: number;
+  failedCount: number;
+  inFlight: number;
+  retryScheduled: number;
+  remaining: number;
+  startedAt?: string;
+}
+
+/**
+ * Result of change detection for a processed listing
+ */
+export type ChangeOutcome = 'new' | 'changed' | 'unchanged';
+
+export type ChangeCounters = Record<ChangeOutcome, number>;
+
+/**
+ * Change counters of one hourly ('2026-01-31T14') or daily ('2026-01-31')
+ * bucket (UTC)
+ */
+export interface ChangeRollup extends ChangeCounters {
+  bucket: string;
+}
+
+/**
+ * Rollup bucket of a time (UTC hour or day)
+ */
+export function changeBucket(granularity: 'hour' | 'day', time: number): string {
+  return new Date(time).toISOString().slice(0, granularity === 'hour' ? 13 : 10);
+}
+
+/**
+ * Queue statistics of one segment, including its current epoch
+ */
+export interface SegmentStats {
+  segment: string;
+  queueDepth: number;
+  laneDepths: Record<QueueLane, number>;
+  totalDiscovered: number;
+  processedCount: number;
+  epoch: EpochStats;
+  progress: number;
+}
+
+/**
+ * Dead-letter record for a listing that failed permanently
+ */
+export interface DeadLetterRecord {
+  id: string;
+  error: string;
+  errorClass: FailureClass;
+  httpStatus?: number;
+  strategy?: FetchStrategy;
+  attempts: number;
+  workerId?: string;
+  firstFailedAt: number;
+  failedAt: number;
+}
+
+export type DeadLetterDetails = Partial<Omit<DeadLetterRecord, 'id' | 'error' | 'firstFailedAt' | 'failedAt'>>;
+
+/**
+ * Filter for listing/replaying dead letters (all fields optional, ANDed)
+ */
+export interface DeadLetterFilter {
+  errorClass?: FailureClass;
+  httpStatus?: number;
+  strategy?: FetchStrategy;
+  workerId?: string;
+  since?: number;
+  until?: number;
+}
+
+/**
+ * Registry entry of a running worker or verifier
+ * (verifiers report verified/inactive/active/errors as
+ * processed/changed/unchanged/failed)
+ */
+export interface WorkerInfo {
+  workerId: string;
+  kind: 'worker' | 'verifier';
+  hostname: string;
+  pid: number;
+  startedAt: number;
+  heartbeatAt: number;
+  currentListing: string | null;
+  fetchMode: string;
+  segments?: string[];
+  counters: {
+    processed: number;
+    changed: number;
+    unchanged: number;
+    failed: number;
+  };
+}
+
+/**
+ * Result of recovering a worker whose heartbeat went stale
+ */
+export interface RecoveredWorker {
+  workerId: string;
+  kind: WorkerInfo['kind'];
+  recoveredIds: string[];
+}
+
+/**
+ * Statistics for a single queue epoch (one coordinator run)
+ */
+export interface EpochStats {
+  epoch: number;
+  runId?: number;
+  startedAt?: string;
+  queued: number;
+  newCount: number;
+  skipped: number; // detail fetches saved by unchanged search summaries
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Calculate checksum of important property fields (Italian properties)
+ */
+export function calculatePropertyChecksum(property: any): string {
+  // Gather all important fields for Italian properties
+  const importantData = {
+    price: property.price?.value || 0,
+    title: property.title || '',
+    description: property.description || '',
+    surface: property.surface || 0,
+    rooms: property.rooms || 0,
+    bathrooms: property.bathrooms || 0,
+    floor: property.floor || '',
+    images: (property.multimedia?.images || []).map((img: any) => img.url).join('|'),
+    features: (property.features || []).sort().join('|'),
+    properties: JSON.stringify((property.properties || []).sort()),
+    location: JSON.stringify(property.location || {}),
+    typology: property.typology || '',
+  };
+
+  // Create JSON string of all important data
+  const dataString = JSON.stringify(importantData);
+
+  // Calculate SHA256 checksum
+  return crypto.createHash('sha256').update(dataString).digest('hex');
+}
+
+/**
+ * Check a dead-letter record against a filter (time range excluded)
+ */
+export function matchesDeadLetterFilter(record: DeadLetterRecord, filter: DeadLetterFilter): boolean {
+  if (filter.errorClass && record.errorClass !== filter.errorClass) return false;
+  if (filter.httpStatus && record.httpStatus !== filter.httpStatus) return false;
+  if (filter.strategy && record.strategy !== filter.strategy) return false;
+  if (filter.workerId && record.workerId !== filter.workerId) return false;
+  return true;
+}
+
+/**
+ * Snapshot stored for change detection
+ */
+export interface PropertySnapshot {
+  checksum: string;
+  price: number;
+  title: string;
+  surface: number;
+  updated_at: number;
+}
+
+/**
+ * Change statistics (snapshot count and change counters)
+ */
+export interface ChangeStats {
+  totalSnapshots: number;
+  snapshotsWithChanges: number;
+  totals: ChangeCounters;
+  lastHour: ChangeCounters;
+  today: ChangeCounters;
+}
+
+/**
+ * Queue operations used by the coordinator, workers, verifier and refresh job
+ * (see RedisQueue for the semantics of each operation)
+ */
+export interface QueueBackend {
+  /** Prepare the queue (set start time) */
+  initialize(): Promise<void>;
+  /** Close connections */
+  close(): Promise<void>;
+  /** Check if the backend is usable */
+  isConnected(): boolean;
+
+  // Segments
+  getSegments(): Promise<string[]>;
+  resolveSegments(patterns: string[]): Promise<string[]>;
+
+  // Epochs
+  openEpoch(runId?: number, segment?: string): Promise<number>;
+  getCurrentEpoch(segment?: string): Promise<number>;
+  getEpochStats(epoch?: number, segment?: string): Promise<EpochStats>;
+  listEpochs(segment?: string): Promise<EpochStats[]>;
+
+  // Queueing and leases
+  pushListingId(id: string, segment?: string): Promise<boolean>;
+  pushListingIds(
+    ids: string[],
+    options?: {
+      segment?: string;
+      category?: PropertyCategory;
+      laneOf?: (id: string) => QueueLane;
+      summaries?: Map<string, string>;
+    }
+  ): Promise<string[]>;
+  enqueueRefresh(ids: string[], lane: QueueLane, runId?: number): Promise<number>;
+  popListing(timeoutSeconds?: number, workerId?: string, segments?: string[]): Promise<QueuedListing | null>;
+  acknowledge(id: string): Promise<void>;
+  extendLeases(workerId: string): Promise<number>;
+  reclaimExpiredLeases(): Promise<string[]>;
+  getInFlightCount(): Promise<number>;
+
+  // Run slices
+  markRunQueued(runId: number): Promise<void>;
+  claimRunFinalization(runId: number): Promise<boolean>;
+
+  // Results, retries and dead letters
+  isProcessed(id: string): Promise<boolean>;
+  markProcessed(id: string, outcome?: ChangeOutcome): Promise<void>;
+  markFailed(id: string, error?: string, details?: DeadLetterDetails): Promise<void>;
+  getDeadLetter(id: string): Promise<DeadLetterRecord | null>;
+  getDeadLetters(filter?: DeadLetterFilter): Promise<DeadLetterRecord[]>;
+  replayDeadLetters(filter?: DeadLetterFilter): Promise<number>;
+  incrementRetry(id: string): Promise<number>;
+  getRetryCount(id: string): Promise<number>;
+  requeueWithRetry(id: string, maxRetries?: number, delayMs?: number): Promise<boolean>;
+  promoteDueRetries(limit?: number): Promise<number>;
+  getScheduledRetryCount(): Promise<number>;
+  getFailedIds(): Promise<string[]>;
+  retryFailedListings(): Promise<number>;
+
+  // Statistics
+  getStats(segments?: string[]): Promise<QueueStats>;
+  getSegmentStats(segments?: string[]): Promise<SegmentStats[]>;
+  getProgress(segment?: string): Promise<number>;
+  clear(): Promise<void>;
+
+  // Worker registry
+  heartbeatWorker(info: Omit<WorkerInfo, 'heartbeatAt'>): Promise<void>;
+  unregisterWorker(workerId: string): Promise<void>;
+  getWorkers(): Promise<WorkerInfo[]>;
+  recoverStaleWorkers(staleAfterMs?: number): Promise<RecoveredWorker[]>;
+
+  // Last seen and missing properties
+  updateLastSeen(id: string): Promise<void>;
+  getLastSeen(id: string): Promise<number | null>;
+  findMissingProperties(hoursThreshold?: number): Promise<string[]>;
+  pushToMissingQueue(ids: string[]): Promise<number>;
+  popFromMissingQueue(timeoutSeconds?: number): Promise<string | null>;
+  markVerifiedInactive(id: string): Promise<void>;
+  markReactivated(id: string): Promise<boolean>;
+  isVerifiedInactive(id: string): Promise<boolean>;
+  getVerifiedInactiveCount(): Promise<number>;
+  getMissingQueueDepth(): Promise<number>;
+
+  // Snapshots and change counters
+  storePropertySnapshot(id: string, property: any): Promise<void>;
+  getPropertySnapshot(id: string): Promise<PropertySnapshot | null>;
+  detectChange(id: string, currentProperty: any): Promise<ChangeOutcome>;
+  hasPropertyChanged(id: string, currentProperty: any): Promise<boolean>;
+  getChangeRollups(granularity: 'hour' | 'day', count: number): Promise<ChangeRollup[]>;
+  getChangeStats(): Promise<ChangeStats>;
+}
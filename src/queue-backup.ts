@@ -0,0 +1,463 @@
+/**
+ * Queue Backup - Immobiliare.it
+ *
+ * Streams every key under the landomo:<portal> namespace to and from an
+ * NDJSON file (pending lanes, dedupe sets, failures, retries, snapshots,
+ * last-seen index, verified_inactive, ...). Rate-limit buckets are skipped.
+ *
+ * File layout (one JSON object per line):
+ *   header  -> { kind: 'header', version, namespace, exportedAt }
+ *   per key -> { kind: 'key', key, type, ttl }
+ *              { kind: 'data', key, value }   (one or more chunks)
+ *              { kind: 'end', key, count }
+ *   footer  -> { kind: 'footer', keys, elements }
+ *
+ * Keys are stored relative to the namespace, so a backup can be imported
+ * under another portal or into another Redis. Stop workers while exporting:
+ * keys are read one by one, not as a single snapshot.
+ */
+
+import Redis from 'ioredis';
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { once } from 'events';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('QueueBackup');
+
+const BACKUP_VERSION = 1;
+
+/** Elements per data line */
+const CHUNK_SIZE = 5000;
+
+/** Key prefix a replace import is restored under before it is swapped in */
+const STAGING_PREFIX = 'landomo-import';
+
+export type BackupKeyType = 'string' | 'list' | 'set' | 'zset' | 'hash';
+
+/**
+ * merge: keep existing values (sets/zsets/hashes are unioned, lists appended
+ * without the members they already hold)
+ * replace: restore the backup under staging keys, then swap them in for
+ * every namespace key once the whole file imported intact
+ */
+export type ImportMode = 'merge' | 'replace';
+
+type BackupValue = string | string[] | Array<[string, string]>;
+
+type BackupRecord =
+  | { kind: 'header'; version: number; namespace: string; exportedAt: string }
+  | { kind: 'key'; key: string; type: BackupKeyType; ttl: number }
+  | { kind: 'data'; key: string; value: BackupValue }
+  | { kind: 'end'; key: string; count: number }
+  | { kind: 'footer'; keys: number; elements: number };
+
+export interface BackupSummary {
+  keys: number;
+  elements: number;
+  byType: Record<BackupKeyType, number>;
+}
+
+export class QueueBackup {
+  private redis: Redis;
+  private namespace: string;
+
+  constructor(
+    portal: string = 'immobiliare',
+    redisUrl?: string
+  ) {
+    this.redis = new Redis(redisUrl || config.redisUrl, {
+      maxRetriesPerRequest: 3,
+    });
+    this.namespace = `landomo:${portal}`;
+
+    this.redis.on('error', (err) => {
+      logger.error('Redis error:', err);
+    });
+  }
+
+  /**
+   * Find namespace keys to back up (SCAN, rate-limit buckets excluded)
+   */
+  private async scanNamespaceKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', `${this.namespace}:*`, 'COUNT', 1000);
+      keys.push(...batch.filter(key => !key.startsWith(`${this.namespace}:ratelimit:`)));
+      cursor = next;
+    } while (cursor !== '0');
+    return keys.sort();
+  }
+
+  /**
+   * Read the value of a key in chunks
+   * (scan results are de-duplicated, SCAN may return a member twice)
+   */
+  private async *readChunks(key: string, type: BackupKeyType): AsyncGenerator<BackupValue> {
+    if (type === 'string') {
+      const value = await this.redis.get(key);
+      if (value !== null) yield value;
+      return;
+    }
+
+    if (type === 'list') {
+      for (let start = 0; ; start += CHUNK_SIZE) {
+        const values = await this.redis.lrange(key, start, start + CHUNK_SIZE - 1);
+        if (values.length > 0) yield values;
+        if (values.length < CHUNK_SIZE) return;
+      }
+    }
+
+    const seen = new Set<string>();
+    let cursor = '0';
+    do {
+      let chunk: BackupValue;
+      if (type === 'set') {
+        const [next, batch] = await this.redis.sscan(key, cursor, 'COUNT', CHUNK_SIZE);
+        cursor = next;
+        const members: string[] = [];
+        for (const member of batch) {
+          if (seen.has(member)) continue;
+          seen.add(member);
+          members.push(member);
+        }
+        chunk = members;
+      } else {
+        const [next, flat] = type === 'zset'
+          ? await this.redis.zscan(key, cursor, 'COUNT', CHUNK_SIZE)
+          : await this.redis.hscan(key, cursor, 'COUNT', CHUNK_SIZE);
+        cursor = next;
+        const pairs: Array<[string, string]> = [];
+        for (let i = 0; i < flat.length; i += 2) {
+          if (seen.has(flat[i])) continue;
+          seen.add(flat[i]);
+          pairs.push([flat[i], flat[i + 1]]);
+        }
+        chunk = pairs;
+      }
+      if (chunk.length > 0) yield chunk;
+    } while (cursor !== '0');
+  }
+
+  /**
+   * Export all namespace keys to an NDJSON file
+   */
+  async exportTo(filePath: string): Promise<BackupSummary> {
+    const out = fs.createWriteStream(filePath, { encoding: 'utf8' });
+    const writeRecord = async (record: BackupRecord) => {
+      if (!out.write(JSON.stringify(record) + '\n')) {
+        await once(out, 'drain');
+      }
+    };
+
+    const summary: BackupSummary = {
+      keys: 0,
+      elements: 0,
+      byType: { string: 0, list: 0, set: 0, zset: 0, hash: 0 },
+    };
+
+    try {
+      await writeRecord({
+        kind: 'header',
+        version: BACKUP_VERSION,
+        namespace: this.namespace,
+        exportedAt: new Date().toISOString(),
+      });
+
+      for (const fullKey of await this.scanNamespaceKeys()) {
+        const type = await this.redis.type(fullKey);
+        if (!(type in summary.byType)) {
+          if (type !== 'none') logger.warn(`Skipping ${fullKey} (unsupported type ${type})`);
+          continue;
+        }
+
+        const key = fullKey.slice(this.namespace.length + 1);
+        const ttl = await this.redis.pttl(fullKey);
+        await writeRecord({ kind: 'key', key, type: type as BackupKeyType, ttl });
+
+        let count = 0;
+        for await (const value of this.readChunks(fullKey, type as BackupKeyType)) {
+          await writeRecord({ kind: 'data', key, value });
+          count += typeof value === 'string' ? 1 : value.length;
+        }
+        await writeRecord({ kind: 'end', key, count });
+
+        summary.keys++;
+        summary.elements += count;
+        summary.byType[type as BackupKeyType]++;
+      }
+
+      await writeRecord({ kind: 'footer', keys: summary.keys, elements: summary.elements });
+    } finally {
+      out.end();
+      await once(out, 'finish');
+    }
+
+    logger.info(`Exported ${summary.keys} keys (${summary.elements} elements) to ${filePath}`);
+    return summary;
+  }
+
+  /**
+   * Write one data chunk of a key (existing = members a list held before a
+   * merge import, skipped). Returns the number of elements skipped
+   */
+  private async writeChunk(
+    fullKey: string,
+    type: BackupKeyType,
+    value: BackupValue,
+    mode: ImportMode,
+    existing?: Set<string>
+  ): Promise<number> {
+    switch (type) {
+      case 'string':
+        if (mode === 'merge') {
+          await this.redis.set(fullKey, value as string, 'NX');
+        } else {
+          await this.redis.set(fullKey, value as string);
+        }
+        break;
+      case 'list': {
+        const values = (value as string[]).filter(member => !existing?.has(member));
+        if (values.length > 0) {
+          await this.redis.rpush(fullKey, ...values);
+        }
+        return (value as string[]).length - values.length;
+      }
+      case 'set':
+        await this.redis.sadd(fullKey, ...(value as string[]));
+        break;
+      case 'zset': {
+        const args = (value as Array<[string, string]>).flatMap(([member, score]) => [score, member]);
+        if (mode === 'merge') {
+          await this.redis.zadd(fullKey, 'NX', ...args);
+        } else {
+          await this.redis.zadd(fullKey, ...args);
+        }
+        break;
+      }
+      case 'hash': {
+        const pairs = value as Array<[string, string]>;
+        if (mode === 'merge') {
+          const pipeline = this.redis.pipeline();
+          for (const [field, fieldValue] of pairs) {
+            pipeline.hsetnx(fullKey, field, fieldValue);
+          }
+          await pipeline.exec();
+        } else {
+          await this.redis.hset(fullKey, Object.fromEntries(pairs));
+        }
+        break;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Get number of elements stored in a key
+   */
+  private async countElements(fullKey: string, type: BackupKeyType): Promise<number> {
+    switch (type) {
+      case 'string': return await this.redis.exists(fullKey);
+      case 'list': return await this.redis.llen(fullKey);
+      case 'set': return await this.redis.scard(fullKey);
+      case 'zset': return await this.redis.zcard(fullKey);
+      case 'hash': return await this.redis.hlen(fullKey);
+    }
+  }
+
+  /**
+   * Import an NDJSON backup
+   * Every key is checked against the counts recorded in the file: the
+   * number of elements read must match, and afterwards Redis must hold
+   * exactly that many (replace) or at least that many, less the list members
+   * it already held (merge). A missing footer means the file is truncated.
+   * A replace import leaves the existing keys untouched unless the whole
+   * file imports intact.
+   */
+  async importFrom(filePath: string, mode: ImportMode = 'merge'): Promise<BackupSummary> {
+    let summary: BackupSummary;
+    if (mode === 'merge') {
+      summary = await this.restore(filePath, this.namespace, mode, []);
+    } else {
+      const prefix = `${STAGING_PREFIX}:${this.namespace}:${Date.now()}`;
+      const staged: string[] = [];
+      try {
+        summary = await this.restore(filePath, prefix, mode, staged);
+        await this.swapIn(prefix, staged);
+      } catch (error) {
+        for (let i = 0; i < staged.length; i += 1000) {
+          await this.redis.del(...staged.slice(i, i + 1000).map(key => `${prefix}:${key}`));
+        }
+        throw error;
+      }
+    }
+
+    logger.info(`Imported ${summary.keys} keys (${summary.elements} elements) from ${filePath}`);
+    return summary;
+  }
+
+  /**
+   * Replace every namespace key with the keys staged under a prefix
+   * (in one transaction, watched so no staged key can change or expire in
+   * between; throws before touching the namespace if one is missing)
+   */
+  private async swapIn(prefix: string, keys: string[]): Promise<void> {
+    const staged = keys.map(key => `${prefix}:${key}`);
+    if (staged.length > 0) {
+      await this.redis.watch(...staged);
+    }
+    try {
+      let present = 0;
+      for (let i = 0; i < staged.length; i += 1000) {
+        present += await this.redis.exists(...staged.slice(i, i + 1000));
+      }
+      if (present !== staged.length) {
+        throw new Error(`${staged.length - present} staged keys are missing, existing keys left untouched`);
+      }
+
+      // Renamed keys overwrite their live counterparts; delete the rest
+      const targets = new Set(keys.map(key => `${this.namespace}:${key}`));
+      const existing = (await this.scanNamespaceKeys()).filter(key => !targets.has(key));
+      const transaction = this.redis.multi();
+      for (const key of keys) {
+        transaction.rename(`${prefix}:${key}`, `${this.namespace}:${key}`);
+      }
+      for (let i = 0; i < existing.length; i += 1000) {
+        transaction.del(...existing.slice(i, i + 1000));
+      }
+
+      const results = await transaction.exec();
+      if (!results) {
+        throw new Error('Staged keys changed during the swap, existing keys left untouched');
+      }
+      const failed = results.find(([error]) => error);
+      if (failed) {
+        throw new Error(`Swapping in the staged keys failed: ${failed[0]!.message}`);
+      }
+      logger.warn(`Swapped in ${keys.length} imported keys, deleted ${existing.length} other existing keys`);
+    } finally {
+      await this.redis.unwatch();
+    }
+  }
+
+  /**
+   * Restore an NDJSON backup under a key prefix (keys = relative keys
+   * written so far, for cleanup)
+   */
+  private async restore(filePath: string, prefix: string, mode: ImportMode, keys: string[]): Promise<BackupSummary> {
+    const input = readline.createInterface({
+      input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    const summary: BackupSummary = {
+      keys: 0,
+      elements: 0,
+      byType: { string: 0, list: 0, set: 0, zset: 0, hash: 0 },
+    };
+    let current: {
+      key: string;
+      type: BackupKeyType;
+      ttl: number;
+      received: number;
+      skipped: number;
+      existing?: Set<string>;
+    } | null = null;
+    let hasHeader = false;
+    let hasFooter = false;
+    let lineNumber = 0;
+
+    for await (const line of input) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      const record: BackupRecord = JSON.parse(line);
+      if (!hasHeader && record.kind !== 'header') {
+        throw new Error(`Line ${lineNumber}: expected backup header`);
+      }
+
+      switch (record.kind) {
+        case 'header':
+          if (record.version !== BACKUP_VERSION) {
+            throw new Error(`Unsupported backup version ${record.version}`);
+          }
+          hasHeader = true;
+          logger.info(`Importing backup of ${record.namespace} from ${record.exportedAt} (${mode})`);
+          break;
+
+        case 'key':
+          if (current) {
+            throw new Error(`Line ${lineNumber}: key ${current.key} has no end record`);
+          }
+          current = { key: record.key, type: record.type, ttl: record.ttl, received: 0, skipped: 0 };
+          if (mode === 'merge' && record.type === 'list') {
+            current.existing = new Set(await this.redis.lrange(`${prefix}:${record.key}`, 0, -1));
+          }
+          keys.push(record.key);
+          break;
+
+        case 'data':
+          if (!current || current.key !== record.key) {
+            throw new Error(`Line ${lineNumber}: data for unexpected key ${record.key}`);
+          }
+          current.skipped += await this.writeChunk(
+            `${prefix}:${current.key}`, current.type, record.value, mode, current.existing
+          );
+          current.received += typeof record.value === 'string' ? 1 : record.value.length;
+          break;
+
+        case 'end': {
+          if (!current || current.key !== record.key) {
+            throw new Error(`Line ${lineNumber}: end for unexpected key ${record.key}`);
+          }
+          if (current.received !== record.count) {
+            throw new Error(
+              `Key ${current.key}: read ${current.received} elements, backup recorded ${record.count}`
+            );
+          }
+
+          const fullKey = `${prefix}:${current.key}`;
+          if (current.ttl > 0) {
+            await this.redis.pexpire(fullKey, current.ttl);
+          }
+          const stored = await this.countElements(fullKey, current.type);
+          const intact = mode === 'replace' ? stored === record.count : stored >= record.count - current.skipped;
+          if (!intact) {
+            throw new Error(`Key ${current.key}: ${stored} elements in Redis, backup recorded ${record.count}`);
+          }
+
+          summary.keys++;
+          summary.elements += record.count;
+          summary.byType[current.type]++;
+          current = null;
+          break;
+        }
+
+        case 'footer':
+          if (record.keys !== summary.keys || record.elements !== summary.elements) {
+            throw new Error(
+              `Backup recorded ${record.keys} keys / ${record.elements} elements, ` +
+              `imported ${summary.keys} / ${summary.elements}`
+            );
+          }
+          hasFooter = true;
+          break;
+      }
+    }
+
+    if (!hasFooter) {
+      throw new Error(`Backup ${filePath} is truncated (no footer after ${summary.keys} keys)`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
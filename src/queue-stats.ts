@@ -2,26 +2,67 @@
  * Queue Statistics and Management Tool
  *
  * Usage:
- *   npm run queue:stats        # Show stats
+ *   npm run queue:stats        # Show stats [-- --segment rent:milano]
+ *   npm run queue:segments     # Show per-segment progress
  *   npm run queue:clear        # Clear all data
+ *   npm run queue:export [-- <file>]
+ *                              # Back up all queue keys to NDJSON
+ *   npm run queue:import -- <file> [--mode merge|replace]
+ *                              # Restore a backup (default: merge)
  *   npm run queue:retry-failed # Retry failed items
+ *   npm run queue:reclaim      # Re-queue expired leases
+ *   npm run queue:epochs       # Show per-epoch (per-run) stats [-- --segment sale]
+ *   npm run queue:workers      # List live workers with throughput
+ *   npm run queue:changes      # Change counters per hour/day [-- --hours 24 --days 7 --recount]
+ *   npm run queue:health       # Write a health row to scraper_health
+ *   npm run queue:migrate-last-seen [-- --delete-legacy]
+ *                              # Build last-seen index from last_seen:* keys
+ *   npm run queue:migrate-segments
+ *                              # Move pre-segment queue data to the default segment
+ *   npm run queue:events:tail [-- --from 0 --type price_changed --group alerts --consumer c1]
+ *                              # Follow lifecycle events (--from: entry ID, 0 = replay, $ = new only)
+ *   npm run queue:events:info  # Event stream length and consumer groups
+ *   npm run queue:geo:coverage [-- --run 12 --area milano --out coverage.geojson --all]
+ *                              # Geo discovery tiles as GeoJSON (default: latest run, leaf tiles)
+ *
+ * Dead-letter commands accept filters:
+ *   --class <blocked|not_found|...>  --status <http status>
+ *   --strategy <http|browser>        --worker <worker id>
+ *   --since <time>  --until <time>   (ISO date, today, yesterday, 12h, 7d)
+ *
+ *   npm run queue:dlq:list -- --class blocked
+ *   npm run queue:dlq:group -- --by status
+ *   npm run queue:dlq:count -- --since 24h
+ *   npm run queue:dlq:replay -- --status 403 --since yesterday --until today
  */
 
 import { RedisQueue } from './redis-queue';
+import { DeadLetterFilter, DeadLetterRecord, SegmentStats, ChangeCounters } from './queue-backend';
+import { QueueBackup, ImportMode } from './queue-backup';
+import { PropertyEventStream, PropertyEventType, PROPERTY_EVENT_TYPES, StoredPropertyEvent } from './events';
+import { ScraperDatabase } from './database';
+import { recordHealthSnapshot } from './health';
+import { tilesToGeoJSON } from './geo-tiles';
+import { config } from './config';
+import type { FailureClass, FetchStrategy } from './failures';
 import { createLogger } from './logger';
+import * as fs from 'fs';
 
 const logger = createLogger('QueueStats');
 
-async function showStats() {
+async function showStats(args: string[]) {
   const queue = new RedisQueue('immobiliare');
 
   try {
     await queue.initialize();
 
-    const stats = await queue.getStats();
-    const progress = await queue.getProgress();
+    const segmentArg = getArg(args, 'segment');
+    const segments = segmentArg ? [segmentArg] : undefined;
+    const stats = await queue.getStats(segments);
+    const segmentStats = await queue.getSegmentStats(segments);
     const missingQueueDepth = await queue.getMissingQueueDepth();
     const verifiedInactiveCount = await queue.getVerifiedInactiveCount();
+    const changeStats = await queue.getChangeStats();
 
     logger.info('\n' + '='.repeat(60));
     logger.info('Immobiliare.it Queue Statistics');
@@ -30,10 +71,22 @@ async function showStats() {
     logger.info(`Total discovered: ${stats.totalDiscovered.toLocaleString()}`);
     logger.info(`Processed: ${stats.processedCount.toLocaleString()}`);
     logger.info(`Queue depth: ${stats.queueDepth.toLocaleString()}`);
+    for (const [lane, depth] of Object.entries(stats.laneDepths)) {
+      logger.info(`  ${lane}: ${depth.toLocaleString()}`);
+    }
+    logger.info(`In flight: ${stats.inFlight.toLocaleString()}`);
+    logger.info(`Scheduled retries: ${stats.retryScheduled.toLocaleString()}`);
     logger.info(`Failed: ${stats.failedCount.toLocaleString()}`);
-    logger.info(`Progress: ${progress.toFixed(2)}%`);
+    logger.info(`Segments (progress of current epoch):`);
+    for (const segment of segmentStats) {
+      logger.info(`  ${formatSegmentProgress(segment)}`);
+    }
     logger.info(`Missing queue: ${missingQueueDepth.toLocaleString()}`);
     logger.info(`Verified inactive: ${verifiedInactiveCount.toLocaleString()}`);
+    logger.info(`Snapshots: ${changeStats.totalSnapshots.toLocaleString()}`);
+    logger.info(`Changes (this hour): ${formatChangeCounters(changeStats.lastHour)}`);
+    logger.info(`Changes (today): ${formatChangeCounters(changeStats.today)}`);
+    logger.info(`Changes (total): ${formatChangeCounters(changeStats.totals)}`);
     logger.info('='.repeat(60) + '\n');
 
     await queue.close();
@@ -64,6 +117,55 @@ async function clearQueue() {
   }
 }
 
+async function exportQueue(args: string[]) {
+  const backup = new QueueBackup('immobiliare');
+  const filePath = args[0] && !args[0].startsWith('--')
+    ? args[0]
+    : `queue-backup-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`;
+
+  try {
+    const summary = await backup.exportTo(filePath);
+    logger.info(
+      `Exported ${summary.keys} keys to ${filePath} ` +
+      `(${Object.entries(summary.byType).map(([type, count]) => `${count} ${type}`).join(', ')})`
+    );
+
+    await backup.close();
+  } catch (error) {
+    logger.error('Error exporting queue:', error);
+    process.exit(1);
+  }
+}
+
+async function importQueue(args: string[]) {
+  const backup = new QueueBackup('immobiliare');
+  const filePath = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+  const mode = (getArg(args, 'mode') || 'merge') as ImportMode;
+
+  try {
+    if (!filePath) {
+      throw new Error('Usage: queue-stats import <file> [--mode merge|replace]');
+    }
+    if (mode !== 'merge' && mode !== 'replace') {
+      throw new Error(`Unknown import mode: ${mode}`);
+    }
+
+    if (mode === 'replace') {
+      logger.warn('WARNING: replace mode deletes all queue data before importing!');
+      logger.warn('Press Ctrl+C within 5 seconds to cancel...');
+      await new Promise(resolve => setTimeout(resolve, 5000));
+    }
+
+    const summary = await backup.importFrom(filePath, mode);
+    logger.info(`Imported ${summary.keys} keys (${summary.elements} elements), counts verified`);
+
+    await backup.close();
+  } catch (error) {
+    logger.error('Error importing queue:', error);
+    process.exit(1);
+  }
+}
+
 async function retryFailed() {
   const queue = new RedisQueue('immobiliare');
 
@@ -80,6 +182,220 @@ async function retryFailed() {
   }
 }
 
+/**
+ * One-line progress summary of a segment's current epoch
+ */
+function formatSegmentProgress(segment: SegmentStats): string {
+  const { epoch } = segment;
+  return (
+    `${segment.segment}: ${segment.progress.toFixed(2)}% of epoch #${epoch.epoch} ` +
+    `(${epoch.processed.toLocaleString()}/${epoch.queued.toLocaleString()} processed, ` +
+    `${epoch.failed.toLocaleString()} failed), ${segment.queueDepth.toLocaleString()} queued`
+  );
+}
+
+async function showSegments() {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const segments = await queue.getSegmentStats();
+    logger.info(`\nSegments (${segments.length}):`);
+    for (const segment of segments) {
+      logger.info(`  ${formatSegmentProgress(segment)}`);
+      logger.info(
+        `    ${segment.totalDiscovered.toLocaleString()} discovered, ` +
+        `${segment.processedCount.toLocaleString()} processed overall, lanes: ` +
+        Object.entries(segment.laneDepths).map(([lane, depth]) => `${lane} ${depth}`).join(', ')
+      );
+    }
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error getting segments:', error);
+    process.exit(1);
+  }
+}
+
+async function showEpochs(args: string[]) {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const segmentArg = getArg(args, 'segment');
+    const segments = segmentArg ? [segmentArg] : await queue.getSegments();
+    for (const segment of segments) {
+      const epochs = await queue.listEpochs(segment);
+      logger.info(`\nEpochs of ${segment} (${epochs.length} retained):`);
+      for (const epoch of epochs) {
+        const progress = epoch.queued > 0 ? (epoch.processed / epoch.queued) * 100 : 0;
+        logger.info(
+          `  #${epoch.epoch} run ${epoch.runId ?? '-'} started ${epoch.startedAt || 'N/A'}: ` +
+          `${epoch.queued.toLocaleString()} queued (${epoch.newCount.toLocaleString()} new, ` +
+          `${epoch.skipped.toLocaleString()} skipped as unchanged), ` +
+          `${epoch.processed.toLocaleString()} processed, ${epoch.failed.toLocaleString()} failed ` +
+          `(${progress.toFixed(2)}%)`
+        );
+      }
+    }
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error getting epochs:', error);
+    process.exit(1);
+  }
+}
+
+async function migrateLastSeen(args: string[]) {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const deleteLegacy = args.includes('--delete-legacy');
+    const count = await queue.migrateLastSeenIndex(deleteLegacy);
+    logger.info(`Indexed ${count} last_seen keys${deleteLegacy ? ' (legacy keys deleted)' : ''}`);
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error migrating last_seen keys:', error);
+    process.exit(1);
+  }
+}
+
+async function migrateSegments() {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const count = await queue.migrateToSegments();
+    logger.info(`Moved ${count} queued IDs to the default segment`);
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error migrating to segments:', error);
+    process.exit(1);
+  }
+}
+
+async function showWorkers() {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const workers = await queue.getWorkers();
+    const now = Date.now();
+    logger.info(`\nWorkers (${workers.length}):`);
+
+    for (const worker of workers) {
+      const uptimeMinutes = Math.max((now - worker.startedAt) / 60000, 1 / 60);
+      const throughput = worker.counters.processed / uptimeMinutes;
+      const heartbeatAge = Math.round((now - worker.heartbeatAt) / 1000);
+      const stale = now - worker.heartbeatAt > config.workerStaleAfterMs ? ' STALE' : '';
+      const { processed, changed, unchanged, failed } = worker.counters;
+
+      logger.info(
+        `  ${worker.workerId} [${worker.kind}/${worker.fetchMode}]${stale} ` +
+        `up ${Math.round(uptimeMinutes)}m, heartbeat ${heartbeatAge}s ago, ` +
+        `current: ${worker.currentListing || '-'}` +
+        (worker.segments ? `, segments: ${worker.segments.join(', ') || '-'}` : '')
+      );
+      logger.info(
+        `    ${processed} processed (${changed} changed, ${unchanged} unchanged, ${failed} failed), ` +
+        `${throughput.toFixed(1)}/min`
+      );
+    }
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error listing workers:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * One-line summary of change counters
+ */
+function formatChangeCounters(counters: ChangeCounters): string {
+  return (
+    `${counters.new.toLocaleString()} new, ${counters.changed.toLocaleString()} changed, ` +
+    `${counters.unchanged.toLocaleString()} unchanged`
+  );
+}
+
+async function showChanges(args: string[]) {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    if (args.includes('--recount')) {
+      const count = await queue.recountSnapshots();
+      logger.info(`Snapshot counter rebuilt: ${count.toLocaleString()} snapshots`);
+    }
+
+    const hours = parseInt(getArg(args, 'hours') || '24', 10);
+    const days = parseInt(getArg(args, 'days') || '7', 10);
+
+    logger.info(`\nChanges per hour (UTC, last ${hours}):`);
+    for (const rollup of await queue.getChangeRollups('hour', hours)) {
+      logger.info(`  ${rollup.bucket}:00  ${formatChangeCounters(rollup)}`);
+    }
+
+    logger.info(`\nChanges per day (UTC, last ${days}):`);
+    for (const rollup of await queue.getChangeRollups('day', days)) {
+      logger.info(`  ${rollup.bucket}  ${formatChangeCounters(rollup)}`);
+    }
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error getting change counters:', error);
+    process.exit(1);
+  }
+}
+
+async function recordHealth() {
+  const queue = new RedisQueue('immobiliare');
+  const db = new ScraperDatabase();
+
+  try {
+    await queue.initialize();
+    await db.initialize();
+
+    const health = await recordHealthSnapshot(queue, db);
+    logger.info(
+      `Recorded health: ${health.queueDepth} queued, ${health.workerCount} workers, ` +
+      `this hour ${formatChangeCounters(health.lastHour)}`
+    );
+
+    await queue.close();
+    await db.close();
+  } catch (error) {
+    logger.error('Error recording health:', error);
+    process.exit(1);
+  }
+}
+
+async function reclaimLeases() {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const reclaimed = await queue.reclaimExpiredLeases();
+    logger.info(`Re-queued ${reclaimed.length} expired leases`);
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error reclaiming leases:', error);
+    process.exit(1);
+  }
+}
+
 async function showFailed() {
   const queue = new RedisQueue('immobiliare');
 
@@ -101,24 +417,337 @@ async function showFailed() {
   }
 }
 
+/**
+ * Parse a time argument: ISO date, "today", "yesterday" or relative ("12h", "7d")
+ */
+function parseTime(value: string): number {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  if (value === 'today') return startOfToday.getTime();
+  if (value === 'yesterday') return startOfToday.getTime() - 24 * 60 * 60 * 1000;
+
+  const relative = value.match(/^(\d+)([hd])$/);
+  if (relative) {
+    const unitMs = relative[2] === 'h' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+    return Date.now() - parseInt(relative[1], 10) * unitMs;
+  }
+
+  const timestamp = Date.parse(value);
+  if (isNaN(timestamp)) {
+    throw new Error(`Invalid time: ${value}`);
+  }
+  return timestamp;
+}
+
+/**
+ * Get value of a --flag argument
+ */
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Build dead-letter filter from command line arguments
+ */
+function parseDeadLetterFilter(args: string[]): DeadLetterFilter {
+  const filter: DeadLetterFilter = {};
+  const errorClass = getArg(args, 'class');
+  const status = getArg(args, 'status');
+  const strategy = getArg(args, 'strategy');
+  const workerId = getArg(args, 'worker');
+  const since = getArg(args, 'since');
+  const until = getArg(args, 'until');
+
+  if (errorClass) filter.errorClass = errorClass as FailureClass;
+  if (status) filter.httpStatus = parseInt(status, 10);
+  if (strategy) filter.strategy = strategy as FetchStrategy;
+  if (workerId) filter.workerId = workerId;
+  if (since) filter.since = parseTime(since);
+  if (until) filter.until = parseTime(until);
+
+  return filter;
+}
+
+async function listDeadLetters(args: string[]) {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const limit = parseInt(getArg(args, 'limit') || '50', 10);
+    const records = await queue.getDeadLetters(parseDeadLetterFilter(args));
+    logger.info(`\nDead letters (${records.length}):`);
+    records.slice(-limit).forEach(record => {
+      logger.info(
+        `  - ${record.id} [${record.errorClass}${record.httpStatus ? ` ${record.httpStatus}` : ''}] ` +
+        `${new Date(record.failedAt).toISOString()} via ${record.strategy || '?'} ` +
+        `after ${record.attempts} attempts (${record.workerId || 'unknown worker'}): ${record.error}`
+      );
+    });
+
+    if (records.length > limit) {
+      logger.info(`  ... and ${records.length - limit} older`);
+    }
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error listing dead letters:', error);
+    process.exit(1);
+  }
+}
+
+async function groupDeadLetters(args: string[]) {
+  const queue = new RedisQueue('immobiliare');
+  const groupFields: Record<string, keyof DeadLetterRecord> = {
+    class: 'errorClass',
+    status: 'httpStatus',
+    strategy: 'strategy',
+    worker: 'workerId',
+  };
+
+  try {
+    await queue.initialize();
+
+    const by = getArg(args, 'by') || 'class';
+    const field = groupFields[by];
+    if (!field) {
+      throw new Error(`Cannot group by "${by}" (use ${Object.keys(groupFields).join(', ')})`);
+    }
+
+    const records = await queue.getDeadLetters(parseDeadLetterFilter(args));
+    const groups = new Map<string, number>();
+    for (const record of records) {
+      const key = String(record[field] ?? 'none');
+      groups.set(key, (groups.get(key) || 0) + 1);
+    }
+
+    logger.info(`\nDead letters by ${by} (${records.length} total):`);
+    Array.from(groups.entries())
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([key, count]) => logger.info(`  ${key}: ${count.toLocaleString()}`));
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error grouping dead letters:', error);
+    process.exit(1);
+  }
+}
+
+async function countDeadLetters(args: string[]) {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const records = await queue.getDeadLetters(parseDeadLetterFilter(args));
+    logger.info(`Matching dead letters: ${records.length.toLocaleString()}`);
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error counting dead letters:', error);
+    process.exit(1);
+  }
+}
+
+async function replayDeadLetters(args: string[]) {
+  const queue = new RedisQueue('immobiliare');
+
+  try {
+    await queue.initialize();
+
+    const count = await queue.replayDeadLetters(parseDeadLetterFilter(args));
+    logger.info(`Re-queued ${count} dead letters`);
+
+    await queue.close();
+  } catch (error) {
+    logger.error('Error replaying dead letters:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * One-line summary of a lifecycle event
+ */
+function formatEvent(event: StoredPropertyEvent): string {
+  const change = event.oldValue !== undefined
+    ? `${JSON.stringify(event.oldValue)} -> ${JSON.stringify(event.newValue)}`
+    : JSON.stringify(event.newValue ?? null);
+  return (
+    `${event.id} ${event.occurredAt} ${event.type} ${event.portalId} ${change} ` +
+    `[${event.source}${event.runId !== undefined ? `, run ${event.runId}` : ''}]`
+  );
+}
+
+async function tailEvents(args: string[]) {
+  const stream = new PropertyEventStream('immobiliare');
+  const from = getArg(args, 'from');
+  const type = getArg(args, 'type') as PropertyEventType | undefined;
+  const group = getArg(args, 'group');
+  const consumer = getArg(args, 'consumer') || `cli-${process.pid}`;
+
+  process.on('SIGINT', () => stream.stop());
+
+  try {
+    if (type && !PROPERTY_EVENT_TYPES.includes(type)) {
+      throw new Error(`Unknown event type: ${type} (expected ${PROPERTY_EVENT_TYPES.join(', ')})`);
+    }
+
+    const handler = (event: StoredPropertyEvent) => {
+      if (!type || event.type === type) {
+        logger.info(formatEvent(event));
+      }
+    };
+
+    if (group) {
+      // --from positions a new group; an existing group is only moved when --from is given
+      await stream.ensureGroup(group, from || '$');
+      if (from) {
+        await stream.setGroupOffset(group, from);
+      }
+      logger.info(`Consuming events as ${consumer} in group ${group} (Ctrl+C to stop)`);
+      await stream.consume(group, consumer, handler);
+    } else {
+      logger.info(`Tailing events from ${from || '$'} (Ctrl+C to stop)`);
+      await stream.tail(handler, from || '$');
+    }
+
+    await stream.close();
+  } catch (error) {
+    logger.error('Error tailing events:', error);
+    process.exit(1);
+  }
+}
+
+async function showEventInfo() {
+  const stream = new PropertyEventStream('immobiliare');
+
+  try {
+    const info = await stream.getInfo();
+    logger.info(`\nEvent stream: ${info.length.toLocaleString()} events (max ~${config.eventStreamMaxLen.toLocaleString()})`);
+
+    for (const group of info.groups) {
+      logger.info(`  ${group.name}: last delivered ${group.lastDeliveredId}, ${group.pending} pending`);
+    }
+
+    await stream.close();
+  } catch (error) {
+    logger.error('Error reading event stream info:', error);
+    process.exit(1);
+  }
+}
+
+async function exportGeoCoverage(args: string[]) {
+  const db = new ScraperDatabase();
+  const runArg = getArg(args, 'run');
+  const outFile = getArg(args, 'out');
+
+  try {
+    await db.initialize();
+
+    const tiles = await db.getGeoTiles({
+      runId: runArg ? parseInt(runArg, 10) : undefined,
+      areaName: getArg(args, 'area'),
+      includeSplit: args.includes('--all'),
+    });
+    const geojson = JSON.stringify(tilesToGeoJSON(tiles), null, 2);
+
+    if (outFile) {
+      fs.writeFileSync(outFile, geojson);
+      const capped = tiles.filter(tile => tile.capped).length;
+      const newIds = tiles.reduce((sum, tile) => sum + tile.newIds, 0);
+      logger.info(
+        `Wrote ${tiles.length} tiles to ${outFile} ` +
+        `(${capped} capped, ${newIds} IDs not found by city searches)`
+      );
+    } else {
+      process.stdout.write(geojson + '\n');
+    }
+
+    await db.close();
+  } catch (error) {
+    logger.error('Error exporting geo coverage:', error);
+    process.exit(1);
+  }
+}
+
 // Main
 const command = process.argv[2] || 'stats';
+const args = process.argv.slice(3);
 
 switch (command) {
   case 'stats':
-    showStats();
+    showStats(args);
+    break;
+  case 'segments':
+    showSegments();
     break;
   case 'clear':
     clearQueue();
     break;
+  case 'export':
+    exportQueue(args);
+    break;
+  case 'import':
+    importQueue(args);
+    break;
   case 'retry-failed':
     retryFailed();
     break;
   case 'show-failed':
     showFailed();
     break;
+  case 'reclaim':
+    reclaimLeases();
+    break;
+  case 'epochs':
+    showEpochs(args);
+    break;
+  case 'workers':
+    showWorkers();
+    break;
+  case 'changes':
+    showChanges(args);
+    break;
+  case 'health':
+    recordHealth();
+    break;
+  case 'migrate-last-seen':
+    migrateLastSeen(args);
+    break;
+  case 'migrate-segments':
+    migrateSegments();
+    break;
+  case 'dlq:list':
+    listDeadLetters(args);
+    break;
+  case 'dlq:group':
+    groupDeadLetters(args);
+    break;
+  case 'dlq:count':
+    countDeadLetters(args);
+    break;
+  case 'dlq:replay':
+    replayDeadLetters(args);
+    break;
+  case 'events:tail':
+    tailEvents(args);
+    break;
+  case 'events:info':
+    showEventInfo();
+    break;
+  case 'geo:coverage':
+    exportGeoCoverage(args);
+    break;
   default:
     logger.error(`Unknown command: ${command}`);
-    logger.info('Available commands: stats, clear, retry-failed, show-failed');
+    logger.info(
+      'Available commands: stats, segments, clear, export, import, retry-failed, show-failed, reclaim, epochs, workers, ' +
+      'changes, health, ' +
+      'migrate-last-seen, migrate-segments, ' +
+      'dlq:list, dlq:group, dlq:count, dlq:replay, ' +
+      'events:tail, events:info, geo:coverage'
+    );
     process.exit(1);
 }
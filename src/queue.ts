@@ -0,0 +1,27 @@
+/**
+ * Queue Backend Selection - Immobiliare.it
+ *
+ * QUEUE_BACKEND=redis (default): distributed RedisQueue
+ * QUEUE_BACKEND=memory: in-process MemoryQueue, shared by every component
+ * of the process (e.g. coordinator and worker in a local run)
+ */
+
+import { config } from './config';
+import { QueueBackend } from './queue-backend';
+import { RedisQueue } from './redis-queue';
+import { MemoryQueue } from './memory-queue';
+
+let sharedMemoryQueue: MemoryQueue | null = null;
+
+/**
+ * Create the configured queue backend
+ */
+export function createQueue(portal: string = 'immobiliare'): QueueBackend {
+  if (config.queueBackend === 'memory') {
+    if (!sharedMemoryQueue) {
+      sharedMemoryQueue = new MemoryQueue();
+    }
+    return sharedMemoryQueue;
+  }
+  return new RedisQueue(portal);
+}
@@ -0,0 +1,202 @@
+/**
+ * Distributed Rate Limiter - Immobiliare.it
+ *
+ * Cluster-wide token buckets in Redis, so the total request rate against
+ * immobiliare.it stays fixed no matter how many workers are running.
+ * Each request type has its own budget (requests per minute + burst).
+ * MemoryRateLimiter applies the same budgets within a single process.
+ */
+
+import Redis from 'ioredis';
+import { createLogger } from './logger';
+import { config } from './config';
+import { delay } from './utils';
+
+const logger = createLogger('RateLimiter');
+
+/**
+ * Request budgets
+ * - detail_html: worker direct HTML detail fetches
+ * - detail_browser: worker Playwright fallback fetches
+ * - verifier_head: verifier HEAD checks
+ * - search_page: coordinator search result pages
+ */
+export type RateLimitBudget = 'detail_html' | 'detail_browser' | 'verifier_head' | 'search_page';
+
+export interface RateLimiter {
+  /** Try to take a token; returns 0 if granted, otherwise ms until one is available */
+  tryAcquire(budget: RateLimitBudget): Promise<number>;
+  /** Wait until a token is available and take it */
+  acquire(budget: RateLimitBudget): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Bucket parameters of a budget (null if the budget is disabled)
+ */
+function getBucketParams(budget: RateLimitBudget): { ratePerMs: number; capacity: number } | null {
+  const perMinute = config.rateLimitsPerMinute[budget];
+  if (!perMinute || perMinute <= 0) {
+    return null;
+  }
+  return { ratePerMs: perMinute / 60000, capacity: Math.max(config.rateLimitBurst, 1) };
+}
+
+/**
+ * Take tokens until granted, sleeping for the wait time reported by tryAcquire
+ */
+async function acquireToken(limiter: RateLimiter, budget: RateLimitBudget): Promise<void> {
+  let waited = 0;
+  while (true) {
+    const waitMs = await limiter.tryAcquire(budget);
+    if (waitMs <= 0) {
+      if (waited > 0) {
+        logger.debug(`Waited ${waited}ms for ${budget} budget`);
+      }
+      return;
+    }
+    waited += waitMs;
+    await delay(waitMs);
+  }
+}
+
+/**
+ * Take one token from a bucket, refilling it for the time elapsed.
+ * Uses the Redis clock so all replicas agree on time.
+ * KEYS: bucket hash
+ * ARGV: refill rate (tokens per ms), capacity, key TTL (ms)
+ * Returns 0 if a token was taken, otherwise ms until one is available
+ */
+const TAKE_TOKEN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local rate = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+
+local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens'))
+local updated = tonumber(redis.call('HGET', KEYS[1], 'updated'))
+if tokens == nil or updated == nil then
+  tokens = capacity
+  updated = now
+end
+
+tokens = math.min(capacity, tokens + (now - updated) * rate)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) / rate)
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', now)
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return wait
+`;
+
+export class DistributedRateLimiter implements RateLimiter {
+  private redis: Redis;
+  private namespace: string;
+
+  constructor(
+    portal: string = 'immobiliare',
+    redisUrl?: string
+  ) {
+    this.redis = new Redis(redisUrl || config.redisUrl, {
+      maxRetriesPerRequest: 3,
+    });
+    this.namespace = `landomo:${portal}:ratelimit`;
+
+    this.redis.on('error', (err) => {
+      logger.error('Redis error:', err);
+    });
+  }
+
+  /**
+   * Try to take a token without waiting
+   * Returns 0 if granted, otherwise ms until a token is available
+   */
+  async tryAcquire(budget: RateLimitBudget): Promise<number> {
+    const params = getBucketParams(budget);
+    if (!params) {
+      return 0; // Budget disabled
+    }
+
+    const { ratePerMs, capacity } = params;
+    // Keep idle buckets long enough to refill completely, then let them expire
+    const ttlMs = Math.ceil(capacity / ratePerMs) + 60000;
+
+    return await this.redis.eval(
+      TAKE_TOKEN_SCRIPT,
+      1,
+      `${this.namespace}:${budget}`,
+      ratePerMs,
+      capacity,
+      ttlMs
+    ) as number;
+  }
+
+  /**
+   * Wait until a token is available in the budget and take it
+   */
+  async acquire(budget: RateLimitBudget): Promise<void> {
+    await acquireToken(this, budget);
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+/**
+ * Token buckets held in process memory (single-process runs)
+ */
+export class MemoryRateLimiter implements RateLimiter {
+  private buckets = new Map<RateLimitBudget, { tokens: number; updated: number }>();
+
+  async tryAcquire(budget: RateLimitBudget): Promise<number> {
+    const params = getBucketParams(budget);
+    if (!params) {
+      return 0; // Budget disabled
+    }
+
+    const { ratePerMs, capacity } = params;
+    const now = Date.now();
+    const bucket = this.buckets.get(budget) || { tokens: capacity, updated: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updated) * ratePerMs);
+    bucket.updated = now;
+    this.buckets.set(budget, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / ratePerMs);
+  }
+
+  async acquire(budget: RateLimitBudget): Promise<void> {
+    await acquireToken(this, budget);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+let sharedMemoryRateLimiter: MemoryRateLimiter | null = null;
+
+/**
+ * Create the rate limiter matching the queue backend
+ * (the in-memory limiter is shared by every component of the process)
+ */
+export function createRateLimiter(portal: string = 'immobiliare'): RateLimiter {
+  if (config.queueBackend === 'memory') {
+    if (!sharedMemoryRateLimiter) {
+      sharedMemoryRateLimiter = new MemoryRateLimiter();
+    }
+    return sharedMemoryRateLimiter;
+  }
+  return new DistributedRateLimiter(portal);
+}
@@ -12,33 +12,198 @@
  * - Deduplication (Redis Sets)
  * - Change detection with checksums
  * - Missing property tracking
+ * - Leased pops with visibility timeouts (crash-safe workers)
+ * - Delayed retries (sorted set keyed by due time)
+ * - Dead-letter store with filterable replay
+ * - Per-run epochs: known IDs are re-queued once per coordinator run
+ * - Priority lanes drained in weighted order
+ * - Worker registry with heartbeats and stale-worker recovery
+ * - Segments (transaction type, optionally city) with their own lanes,
+ *   dedupe sets and epochs
+ * - Change counters (new/changed/unchanged) with hourly and daily rollups
+ * - Property category tag per discovered ID
+ * - Search-summary fingerprints (unchanged known listings skip the detail fetch)
  */
 
-import Redis from 'ioredis';
+import Redis, { ChainableCommander } from 'ioredis';
 import { createLogger } from './logger';
-import { config } from './config';
-import * as crypto from 'crypto';
+import { config, PropertyCategory, DEFAULT_CATEGORY } from './config';
+import { delay } from './utils';
+import { canSkipDetailFetch, formatStoredSummary, parseStoredSummary } from './listing-summaries';
+import {
+  QueueBackend,
+  QueueLane,
+  QUEUE_LANES,
+  QueueRoute,
+  QueuedListing,
+  QueueStats,
+  SegmentStats,
+  EpochStats,
+  ChangeOutcome,
+  ChangeCounters,
+  ChangeRollup,
+  ChangeStats,
+  DeadLetterRecord,
+  DeadLetterDetails,
+  DeadLetterFilter,
+  WorkerInfo,
+  RecoveredWorker,
+  PropertySnapshot,
+  defaultSegment,
+  matchesSegment,
+  weightedLaneOrder,
+  changeBucket,
+  calculatePropertyChecksum,
+  matchesDeadLetterFilter,
+} from './queue-backend';
 
 const logger = createLogger('RedisQueue');
 
-export interface QueueStats {
-  queueDepth: number;
-  totalDiscovered: number;
-  processedCount: number;
-  failedCount: number;
-  remaining: number;
-  startedAt?: string;
-}
+/**
+ * Lua helper resolving the lane queue key of an ID from its route.
+ * Expects the routes hash in ROUTES_KEY, the segment key prefix in
+ * SEGMENT_PREFIX and the fallback segment in DEFAULT_SEGMENT.
+ */
+const ROUTE_LANE_KEY_LUA = `
+local function laneKey(id)
+  local route = redis.call('HGET', ROUTES_KEY, id)
+  local segment = DEFAULT_SEGMENT
+  local lane = 'new'
+  if route then
+    local decoded = cjson.decode(route)
+    segment = decoded.segment or DEFAULT_SEGMENT
+    lane = decoded.lane or 'new'
+  end
+  return SEGMENT_PREFIX .. segment .. ':queue:' .. lane
+end
+`;
+
+/**
+ * Pop an ID from the first non-empty lane and lease it to a worker in one
+ * atomic step.
+ * KEYS: leases (zset id -> deadline), lease owners (hash id -> worker),
+ *       lane queues in the order they should be tried
+ * ARGV: deadline (ms), worker ID
+ * Returns [id, lane queue key] or nil
+ */
+const LEASE_POP_SCRIPT = `
+for i = 3, #KEYS do
+  local id = redis.call('RPOP', KEYS[i])
+  if id then
+    redis.call('ZADD', KEYS[1], ARGV[1], id)
+    redis.call('HSET', KEYS[2], id, ARGV[2])
+    return {id, KEYS[i]}
+  end
+end
+return nil
+`;
+
+/**
+ * Move every lease whose deadline has passed back onto its lane.
+ * KEYS: leases, lease owners, routes
+ * ARGV: now (ms), segment key prefix, default segment
+ */
+const RECLAIM_LEASES_SCRIPT = `
+local ROUTES_KEY = KEYS[3]
+local SEGMENT_PREFIX = ARGV[2]
+local DEFAULT_SEGMENT = ARGV[3]
+${ROUTE_LANE_KEY_LUA}
+local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('HDEL', KEYS[2], id)
+  redis.call('LPUSH', laneKey(id), id)
+end
+return expired
+`;
+
+/**
+ * Push the deadline of every lease held by one worker to a new deadline.
+ * KEYS: leases, lease owners
+ * ARGV: worker ID, deadline (ms)
+ * Returns the number of leases extended
+ */
+const EXTEND_WORKER_LEASES_SCRIPT = `
+local owners = redis.call('HGETALL', KEYS[2])
+local extended = 0
+for i = 1, #owners, 2 do
+  if owners[i + 1] == ARGV[1] then
+    extended = extended + redis.call('ZADD', KEYS[1], 'XX', 'CH', ARGV[2], owners[i])
+  end
+end
+return extended
+`;
+
+/**
+ * Move retries whose due time has passed back onto their lane.
+ * KEYS: retry schedule (zset id -> due time), routes
+ * ARGV: now (ms), max items to move, segment key prefix, default segment
+ */
+const PROMOTE_RETRIES_SCRIPT = `
+local ROUTES_KEY = KEYS[2]
+local SEGMENT_PREFIX = ARGV[3]
+local DEFAULT_SEGMENT = ARGV[4]
+${ROUTE_LANE_KEY_LUA}
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+for _, id in ipairs(due) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('LPUSH', laneKey(id), id)
+end
+return #due
+`;
 
-export class RedisQueue {
+/**
+ * Release every lease held by one worker back onto its lane.
+ * KEYS: leases, lease owners, routes
+ * ARGV: worker ID, segment key prefix, default segment
+ */
+const RELEASE_WORKER_LEASES_SCRIPT = `
+local ROUTES_KEY = KEYS[3]
+local SEGMENT_PREFIX = ARGV[2]
+local DEFAULT_SEGMENT = ARGV[3]
+${ROUTE_LANE_KEY_LUA}
+local owners = redis.call('HGETALL', KEYS[2])
+local released = {}
+for i = 1, #owners, 2 do
+  local id = owners[i]
+  if owners[i + 1] == ARGV[1] then
+    redis.call('ZREM', KEYS[1], id)
+    redis.call('HDEL', KEYS[2], id)
+    redis.call('LPUSH', laneKey(id), id)
+    table.insert(released, id)
+  end
+end
+return released
+`;
+
+/** Poll interval while waiting for a leased pop */
+const LEASE_POLL_INTERVAL_MS = 500;
+
+/** Lifetime of a run's pending counter (runs drain long before this) */
+const RUN_STATE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export class RedisQueue implements QueueBackend {
   private redis: Redis;
   private namespace: string;
-  private queueKey: string;
-  private allIdsKey: string;
-  private processedIdsKey: string;
+  private segmentPrefix: string;
+  private segmentsKey: string;
+  private routesKey: string;
+  private categoriesKey: string;
+  private summariesKey: string;
+  private pendingSummariesKey: string;
   private failedIdsKey: string;
   private retriesKey: string;
   private statsKey: string;
+  private leasesKey: string;
+  private leaseOwnersKey: string;
+  private retryScheduleKey: string;
+  private deadLettersKey: string;
+  private deadLettersByTimeKey: string;
+  private lastSeenIndexKey: string;
+  private workersKey: string;
+  private workerHeartbeatsKey: string;
+  private changesKey: string;
+  private snapshotCountKey: string;
 
   constructor(
     portal: string = 'immobiliare',
@@ -58,12 +223,25 @@ export class RedisQueue {
 
     // Set up key namespaces
     this.namespace = `landomo:${portal}`;
-    this.queueKey = `${this.namespace}:queue`;
-    this.allIdsKey = `${this.namespace}:all_ids`;
-    this.processedIdsKey = `${this.namespace}:processed`;
+    this.segmentPrefix = `${this.namespace}:seg:`;
+    this.segmentsKey = `${this.namespace}:segments`;
+    this.routesKey = `${this.namespace}:routes`;
+    this.categoriesKey = `${this.namespace}:categories`;
+    this.summariesKey = `${this.namespace}:summaries`;
+    this.pendingSummariesKey = `${this.namespace}:summaries:pending`;
     this.failedIdsKey = `${this.namespace}:failed`;
     this.retriesKey = `${this.namespace}:retries`;
     this.statsKey = `${this.namespace}:stats`;
+    this.leasesKey = `${this.namespace}:leases`;
+    this.leaseOwnersKey = `${this.namespace}:leases:owners`;
+    this.retryScheduleKey = `${this.namespace}:retry_schedule`;
+    this.deadLettersKey = `${this.namespace}:dead_letters`;
+    this.deadLettersByTimeKey = `${this.namespace}:dead_letters:by_time`;
+    this.lastSeenIndexKey = `${this.namespace}:last_seen_index`;
+    this.workersKey = `${this.namespace}:workers`;
+    this.workerHeartbeatsKey = `${this.namespace}:workers:heartbeats`;
+    this.changesKey = `${this.namespace}:changes`;
+    this.snapshotCountKey = `${this.namespace}:snapshots:count`;
 
     // Event handlers
     this.redis.on('connect', () => {
@@ -85,93 +263,671 @@ export class RedisQueue {
     }
   }
 
+  // ===== SEGMENTS =====
+
+  /**
+   * Redis key of a segment-scoped structure (e.g. 'all_ids', 'queue:new')
+   */
+  private segmentKey(segment: string, suffix: string): string {
+    return `${this.segmentPrefix}${segment}:${suffix}`;
+  }
+
+  /**
+   * Get all segments that have ever been queued to
+   */
+  async getSegments(): Promise<string[]> {
+    return (await this.redis.smembers(this.segmentsKey)).sort();
+  }
+
+  /**
+   * Get known segments matching any of the subscription patterns
+   * (see matchesSegment)
+   */
+  async resolveSegments(patterns: string[]): Promise<string[]> {
+    const segments = await this.getSegments();
+    return segments.filter(segment => patterns.some(pattern => matchesSegment(segment, pattern)));
+  }
+
+  /**
+   * Get routes of listing IDs (IDs without a route default to the 'new'
+   * lane of the default segment)
+   */
+  private async getRoutes(ids: string[]): Promise<QueueRoute[]> {
+    if (ids.length === 0) return [];
+    const routes = await this.redis.hmget(this.routesKey, ...ids);
+    return routes.map(json => {
+      const route: Partial<QueueRoute> = json ? JSON.parse(json) : {};
+      return { segment: route.segment || defaultSegment(), lane: route.lane || 'new', runId: route.runId };
+    });
+  }
+
+  /**
+   * Key of a run's slice state (pending IDs, queueing done, finalized)
+   */
+  private runKey(runId: number): string {
+    return `${this.namespace}:run:${runId}`;
+  }
+
   /**
-   * Push listing ID to queue (if not already queued/processed)
+   * Key of the set of IDs a run re-queued via enqueueRefresh
    */
-  async pushListingId(id: string): Promise<boolean> {
-    // Check if already in all_ids set
-    const exists = await this.redis.sismember(this.allIdsKey, id);
-    if (exists) {
-      return false; // Already queued
+  private runIdsKey(runId: number): string {
+    return `${this.runKey(runId)}:ids`;
+  }
+
+  /**
+   * Scrape run of a segment's current epoch (undefined = opened without one)
+   */
+  private async epochRunId(prefix: string): Promise<number | undefined> {
+    const runId = await this.redis.hget(`${prefix}:stats`, 'run_id');
+    return runId ? parseInt(runId, 10) : undefined;
+  }
+
+  // ===== EPOCHS =====
+
+  /**
+   * Key prefix for an epoch's sets and stats
+   */
+  private epochPrefix(segment: string, epoch: number): string {
+    return this.segmentKey(segment, `epoch:${epoch}`);
+  }
+
+  /**
+   * Open a new epoch in a segment (called once per coordinator run)
+   * Known IDs become eligible for re-queueing; epochs older than the
+   * retention window are deleted.
+   */
+  async openEpoch(runId?: number, segment: string = defaultSegment()): Promise<number> {
+    const epoch = await this.redis.incr(this.segmentKey(segment, 'epoch'));
+    const stats: Record<string, string> = { started_at: new Date().toISOString() };
+    if (runId !== undefined) {
+      stats.run_id = String(runId);
     }
+    await this.redis
+      .pipeline()
+      .hset(`${this.epochPrefix(segment, epoch)}:stats`, stats)
+      .sadd(this.segmentsKey, segment)
+      .exec();
+
+    // Remove expired epochs (stop at the first one already cleaned up)
+    for (let old = epoch - config.epochRetention; old > 0; old--) {
+      const prefix = this.epochPrefix(segment, old);
+      const removed = await this.redis.del(`${prefix}:stats`, `${prefix}:queued`, `${prefix}:processed`, `${prefix}:skipped`);
+      if (removed === 0) break;
+      logger.info(`Removed expired epoch ${segment}#${old}`);
+    }
+
+    logger.info(`Opened epoch ${segment}#${epoch}${runId !== undefined ? ` for run #${runId}` : ''}`);
+    return epoch;
+  }
+
+  /**
+   * Get current epoch number of a segment (0 if no epoch has been opened yet)
+   */
+  async getCurrentEpoch(segment: string = defaultSegment()): Promise<number> {
+    const epoch = await this.redis.get(this.segmentKey(segment, 'epoch'));
+    return epoch ? parseInt(epoch, 10) : 0;
+  }
+
+  /**
+   * Get statistics for an epoch of a segment (defaults to the current one)
+   */
+  async getEpochStats(epoch?: number, segment: string = defaultSegment()): Promise<EpochStats> {
+    const target = epoch ?? await this.getCurrentEpoch(segment);
+    const prefix = this.epochPrefix(segment, target);
 
-    // Add to queue and all_ids set atomically
     const pipeline = this.redis.pipeline();
-    pipeline.lpush(this.queueKey, id);
-    pipeline.sadd(this.allIdsKey, id);
-    await pipeline.exec();
+    pipeline.hgetall(`${prefix}:stats`);
+    pipeline.scard(`${prefix}:queued`);
+    pipeline.scard(`${prefix}:processed`);
+    pipeline.scard(`${prefix}:skipped`);
+    const results = await pipeline.exec();
+
+    const stats = (results![0][1] as Record<string, string>) || {};
+    return {
+      epoch: target,
+      runId: stats.run_id ? parseInt(stats.run_id, 10) : undefined,
+      startedAt: stats.started_at,
+      queued: (results![1][1] as number) || 0,
+      newCount: parseInt(stats.new || '0', 10),
+      skipped: (results![3][1] as number) || 0,
+      processed: (results![2][1] as number) || 0,
+      failed: parseInt(stats.failed || '0', 10),
+    };
+  }
+
+  /**
+   * Get statistics for all retained epochs of a segment (newest first)
+   */
+  async listEpochs(segment: string = defaultSegment()): Promise<EpochStats[]> {
+    const current = await this.getCurrentEpoch(segment);
+    const epochs: EpochStats[] = [];
+    for (let epoch = current; epoch > 0 && epoch > current - config.epochRetention; epoch--) {
+      epochs.push(await this.getEpochStats(epoch, segment));
+    }
+    return epochs;
+  }
+
+  // ===== QUEUE =====
+
+  /**
+   * Redis key of a lane queue in a segment
+   */
+  private laneKey(segment: string, lane: QueueLane): string {
+    return this.segmentKey(segment, `queue:${lane}`);
+  }
 
+  /**
+   * Push listing ID to a segment's queue (if not already queued in the
+   * segment's current epoch)
+   * New IDs go to the 'new' lane, known IDs to the 'refresh' lane
+   * Returns true if the ID was queued
+   */
+  async pushListingId(id: string, segment: string = defaultSegment()): Promise<boolean> {
+    const prefix = this.epochPrefix(segment, await this.getCurrentEpoch(segment));
+    const results = await this.redis
+      .pipeline()
+      .sadd(this.segmentKey(segment, 'all_ids'), id)
+      .sadd(`${prefix}:queued`, id)
+      .zadd(this.lastSeenIndexKey, Date.now(), id)
+      .exec();
+
+    const isNew = results![0][1] === 1;
+    if (isNew) {
+      await this.redis.hincrby(`${prefix}:stats`, 'new', 1);
+    }
+    if (results![1][1] !== 1) {
+      return false; // Already queued in this epoch
+    }
+
+    await this.enqueueByLane(segment, new Map([[isNew ? 'new' : 'refresh', [id]]]), await this.epochRunId(prefix));
     return true;
   }
 
   /**
-   * Push multiple listing IDs to queue
+   * Push multiple listing IDs to a segment's queue
+   * Each ID is queued at most once per epoch, so known listings are
+   * refreshed on every coordinator run. New IDs go to the 'new' lane, known
+   * IDs to the lane chosen by laneOf (default 'refresh').
+   * Every ID is tagged with the category it was found in (if given).
+   * Known IDs whose search-summary fingerprint (summaries) matches the one
+   * stored when their detail was last fetched are not queued; they count as
+   * skipped detail fetches of the epoch. The fingerprints of queued IDs are
+   * kept pending until markProcessed stores their detail.
+   * Queued IDs are attributed to the epoch's scrape run.
    * Also updates last_seen timestamp for all IDs (for change detection)
+   * Returns the genuinely new (never seen in the segment) IDs
    */
-  async pushListingIds(ids: string[]): Promise<number> {
-    let addedCount = 0;
+  async pushListingIds(
+    ids: string[],
+    options: {
+      segment?: string;
+      category?: PropertyCategory;
+      laneOf?: (id: string) => QueueLane;
+      summaries?: Map<string, string>;
+    } = {}
+  ): Promise<string[]> {
+    const segment = options.segment || defaultSegment();
+    const newIds: string[] = [];
     const timestamp = Date.now();
+    const prefix = this.epochPrefix(segment, await this.getCurrentEpoch(segment));
+    const runId = await this.epochRunId(prefix);
+    const summaryMaxAgeMs = config.summaryMaxAgeDays * 24 * 60 * 60 * 1000;
 
     // Process in batches of 1000 for efficiency
     const batchSize = 1000;
     for (let i = 0; i < ids.length; i += batchSize) {
       const batch = ids.slice(i, i + batchSize);
+      const fingerprints = batch.map(id => options.summaries?.get(id));
+      const stored = options.summaries ? await this.redis.hmget(this.summariesKey, ...batch) : [];
+      const isUnchanged = (idx: number) =>
+        fingerprints[idx] !== undefined &&
+        canSkipDetailFetch(parseStoredSummary(stored[idx]), fingerprints[idx]!, summaryMaxAgeMs, timestamp);
       const pipeline = this.redis.pipeline();
 
       for (const id of batch) {
-        pipeline.sadd(this.allIdsKey, id);
+        pipeline.sadd(this.segmentKey(segment, 'all_ids'), id);
+        pipeline.sadd(`${prefix}:queued`, id);
         // Update last_seen timestamp for all discovered IDs (new and existing)
-        pipeline.set(`${this.namespace}:last_seen:${id}`, timestamp);
+        pipeline.zadd(this.lastSeenIndexKey, timestamp, id);
+      }
+      if (options.category) {
+        pipeline.hset(this.categoriesKey, Object.fromEntries(batch.map(id => [id, options.category!])));
       }
 
       const results = await pipeline.exec();
 
-      // Count how many were new (sadd returns 1 for new, 0 for existing)
-      // Every other result is last_seen set (which we don't count)
-      const newIds = batch.filter((id, idx) => results![idx * 2][1] === 1);
+      // sadd returns 1 for new members, 0 for existing
+      const isNew = (idx: number) => results![idx * 3][1] === 1;
+      const isQueuedThisEpoch = (idx: number) => results![idx * 3 + 1][1] === 1;
+
+      const byLane = new Map<QueueLane, string[]>();
+      const skipped: string[] = [];
+      const queuedSummaries: Record<string, string> = {};
+      batch.forEach((id, idx) => {
+        if (isNew(idx)) newIds.push(id);
+        if (!isQueuedThisEpoch(idx)) return;
+        if (!isNew(idx) && isUnchanged(idx)) {
+          skipped.push(id);
+          return;
+        }
 
-      if (newIds.length > 0) {
-        await this.redis.lpush(this.queueKey, ...newIds);
-        addedCount += newIds.length;
+        const lane: QueueLane = isNew(idx) ? 'new' : (options.laneOf?.(id) || 'refresh');
+        byLane.set(lane, [...(byLane.get(lane) || []), id]);
+        if (fingerprints[idx] !== undefined) {
+          queuedSummaries[id] = formatStoredSummary(fingerprints[idx]!, timestamp);
+        }
+      });
+
+      await this.enqueueByLane(segment, byLane, runId);
+      const batchNew = batch.filter((id, idx) => isNew(idx)).length;
+      const followUp = this.redis.pipeline();
+      if (batchNew > 0) {
+        followUp.hincrby(`${prefix}:stats`, 'new', batchNew);
+      }
+      if (skipped.length > 0) {
+        followUp.srem(`${prefix}:queued`, ...skipped);
+        followUp.sadd(`${prefix}:skipped`, ...skipped);
+      }
+      if (Object.keys(queuedSummaries).length > 0) {
+        followUp.hset(this.pendingSummariesKey, queuedSummaries);
+      }
+      if (followUp.length > 0) {
+        await followUp.exec();
       }
     }
 
-    return addedCount;
+    return newIds;
   }
 
   /**
-   * Pop next listing ID from queue (blocking)
+   * Queue known listing IDs onto a lane without marking them as discovered
+   * (used by refresh jobs and the verifier). Each ID stays in the segment it
+   * was last queued in. With a runId, IDs are deduplicated per run (in the
+   * run's ids set) and IDs the current epoch already processed are queued
+   * again (and count as pending in the epoch until processed); IDs still
+   * pending in the epoch are skipped. Without one, IDs already queued in the
+   * current epoch are skipped. Results of the queued IDs are attributed to
+   * runId. Returns the number of IDs queued
    */
-  async popListingId(timeoutSeconds: number = 5): Promise<string | null> {
-    const result = await this.redis.brpop(this.queueKey, timeoutSeconds);
-    if (!result) {
+  async enqueueRefresh(ids: string[], lane: QueueLane, runId?: number): Promise<number> {
+    let queuedCount = 0;
+
+    const batchSize = 1000;
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize);
+      const routes = await this.getRoutes(batch);
+
+      const bySegment = new Map<string, string[]>();
+      batch.forEach((id, idx) => {
+        const { segment } = routes[idx];
+        bySegment.set(segment, [...(bySegment.get(segment) || []), id]);
+      });
+
+      for (const [segment, segmentIds] of bySegment) {
+        const prefix = this.epochPrefix(segment, await this.getCurrentEpoch(segment));
+        const pipeline = this.redis.pipeline();
+        for (const id of segmentIds) {
+          pipeline.sadd(`${prefix}:queued`, id);
+          pipeline.sismember(`${prefix}:processed`, id);
+          if (runId !== undefined) {
+            pipeline.sadd(this.runIdsKey(runId), id);
+          }
+        }
+        if (runId !== undefined) {
+          pipeline.expire(this.runIdsKey(runId), RUN_STATE_TTL_SECONDS);
+        }
+        const results = await pipeline.exec();
+
+        const step = runId !== undefined ? 3 : 2;
+        const toQueue = segmentIds.filter((id, idx) => {
+          const newInEpoch = results![idx * step][1] === 1;
+          if (runId === undefined) return newInEpoch;
+          const processedInEpoch = results![idx * step + 1][1] === 1;
+          const newInRun = results![idx * step + 2][1] === 1;
+          return newInRun && (newInEpoch || processedInEpoch);
+        });
+        if (runId !== undefined && toQueue.length > 0) {
+          await this.redis.srem(`${prefix}:processed`, ...toQueue);
+        }
+        await this.enqueueByLane(segment, new Map([[lane, toQueue]]), runId);
+        queuedCount += toQueue.length;
+      }
+    }
+
+    return queuedCount;
+  }
+
+  /**
+   * Record routes and push IDs onto the lanes of a segment
+   * (IDs queued for a run count as pending in the run's slice)
+   */
+  private async enqueueByLane(segment: string, byLane: Map<QueueLane, string[]>, runId?: number): Promise<void> {
+    const pipeline = this.redis.pipeline();
+    let queued = 0;
+
+    for (const [lane, ids] of byLane) {
+      if (ids.length === 0) continue;
+      queued += ids.length;
+      const route = JSON.stringify({ segment, lane, runId });
+      for (const id of ids) {
+        pipeline.hset(this.routesKey, id, route);
+      }
+      pipeline.lpush(this.laneKey(segment, lane), ...ids);
+    }
+
+    if (queued > 0) {
+      pipeline.sadd(this.segmentsKey, segment);
+      if (runId !== undefined) {
+        pipeline.hincrby(this.runKey(runId), 'pending', queued);
+        pipeline.expire(this.runKey(runId), RUN_STATE_TTL_SECONDS);
+      }
+      await pipeline.exec();
+    }
+  }
+
+  /**
+   * Pop next listing from the queue (blocking)
+   * Lanes are tried in weighted random order (see LANE_WEIGHTS); within a
+   * lane the segments are tried round-robin from a random start. Without segments every
+   * known segment is consumed.
+   *
+   * When a worker ID is given the ID is leased instead of removed: it stays
+   * in the lease set until acknowledged via markProcessed/markFailed, and is
+   * put back on its lane by reclaimExpiredLeases if the worker dies.
+   */
+  async popListing(
+    timeoutSeconds: number = 5,
+    workerId?: string,
+    segments?: string[]
+  ): Promise<QueuedListing | null> {
+    const targets = segments || await this.getSegments();
+    if (targets.length === 0) {
+      await delay(timeoutSeconds * 1000);
       return null;
     }
-    return result[1]; // brpop returns [key, value]
+
+    // Start at a random segment so no segment is always drained first
+    const offset = Math.floor(Math.random() * targets.length);
+    const rotated = [...targets.slice(offset), ...targets.slice(0, offset)];
+    const laneKeys = weightedLaneOrder(config.laneWeights).flatMap(lane =>
+      rotated.map(segment => this.laneKey(segment, lane))
+    );
+    const toListing = async (key: string, id: string): Promise<QueuedListing> => {
+      // <prefix><segment>:queue:<lane>
+      const path = key.slice(this.segmentPrefix.length);
+      const separator = path.lastIndexOf(':queue:');
+      const category = await this.redis.hget(this.categoriesKey, id);
+      const [{ runId }] = await this.getRoutes([id]);
+      return {
+        id,
+        segment: path.slice(0, separator),
+        lane: path.slice(separator + ':queue:'.length) as QueueLane,
+        category: (category as PropertyCategory) || DEFAULT_CATEGORY,
+        runId,
+      };
+    };
+
+    if (!workerId) {
+      const result = await this.redis.brpop(...laneKeys, timeoutSeconds);
+      if (!result) {
+        return null;
+      }
+      return await toListing(result[0], result[1]); // brpop returns [key, value]
+    }
+
+    // Lua scripts cannot block, so poll until the timeout expires
+    const waitUntil = Date.now() + timeoutSeconds * 1000;
+    while (true) {
+      const result = await this.redis.eval(
+        LEASE_POP_SCRIPT,
+        2 + laneKeys.length,
+        this.leasesKey,
+        this.leaseOwnersKey,
+        ...laneKeys,
+        Date.now() + config.leaseTimeoutMs,
+        workerId
+      ) as [string, string] | null;
+
+      if (result) {
+        return await toListing(result[1], result[0]);
+      }
+      if (Date.now() >= waitUntil) {
+        return null;
+      }
+      await delay(LEASE_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Release the lease on a listing ID that is done without a result (skipped
+   * as already processed) and settle it in the slice of the run that queued it
+   */
+  async acknowledge(id: string): Promise<void> {
+    const [{ runId }] = await this.getRoutes([id]);
+    const pipeline = this.redis.pipeline();
+    pipeline.zrem(this.leasesKey, id);
+    pipeline.hdel(this.leaseOwnersKey, id);
+    if (runId !== undefined) {
+      pipeline.hincrby(this.runKey(runId), 'pending', -1);
+    }
+    await pipeline.exec();
+  }
+
+  /**
+   * Renew the leases a worker holds for another LEASE_TIMEOUT_MS (called with
+   * its heartbeat, so slow fetches are not reclaimed while still running)
+   * Returns the number of leases extended
+   */
+  async extendLeases(workerId: string): Promise<number> {
+    return await this.redis.eval(
+      EXTEND_WORKER_LEASES_SCRIPT,
+      2,
+      this.leasesKey,
+      this.leaseOwnersKey,
+      workerId,
+      Date.now() + config.leaseTimeoutMs
+    ) as number;
+  }
+
+  /**
+   * Put expired leases back on the queue
+   * Returns the reclaimed listing IDs
+   */
+  async reclaimExpiredLeases(): Promise<string[]> {
+    const reclaimed = await this.redis.eval(
+      RECLAIM_LEASES_SCRIPT,
+      3,
+      this.leasesKey,
+      this.leaseOwnersKey,
+      this.routesKey,
+      Date.now(),
+      this.segmentPrefix,
+      defaultSegment()
+    ) as string[];
+
+    if (reclaimed.length > 0) {
+      logger.warn(`Reclaimed ${reclaimed.length} expired leases`);
+    }
+    return reclaimed;
+  }
+
+  /**
+   * Get number of leased (in-flight) listing IDs
+   */
+  async getInFlightCount(): Promise<number> {
+    return await this.redis.zcard(this.leasesKey);
+  }
+
+  // ===== RUN SLICES =====
+
+  /**
+   * Mark a run's queueing as done (its slice can drain from now on)
+   */
+  async markRunQueued(runId: number): Promise<void> {
+    await this.redis
+      .pipeline()
+      .hset(this.runKey(runId), 'queued', '1')
+      .expire(this.runKey(runId), RUN_STATE_TTL_SECONDS)
+      .exec();
+  }
+
+  /**
+   * Claim the finalization of a run whose queueing is done and whose queued
+   * IDs have all been processed or failed (true for exactly one caller)
+   */
+  async claimRunFinalization(runId: number): Promise<boolean> {
+    const state = await this.redis.hgetall(this.runKey(runId));
+    if (state.queued !== '1' || parseInt(state.pending || '0', 10) > 0) {
+      return false;
+    }
+    return (await this.redis.hsetnx(this.runKey(runId), 'finalized', '1')) === 1;
+  }
+
+  /**
+   * Key prefix of the current epoch in the segment a listing ID is routed to
+   */
+  private async currentEpochPrefixOf(id: string): Promise<{ segment: string; prefix: string; runId?: number }> {
+    const [{ segment, runId }] = await this.getRoutes([id]);
+    return { segment, prefix: this.epochPrefix(segment, await this.getCurrentEpoch(segment)), runId };
   }
 
   /**
-   * Check if listing ID is already processed
+   * Check if listing ID is already processed in its segment's current epoch
    */
   async isProcessed(id: string): Promise<boolean> {
-    return (await this.redis.sismember(this.processedIdsKey, id)) === 1;
+    const { prefix } = await this.currentEpochPrefixOf(id);
+    return (await this.redis.sismember(`${prefix}:processed`, id)) === 1;
   }
 
   /**
-   * Mark listing ID as processed
+   * Mark listing ID as processed (in its segment and the segment's current epoch)
+   * The change outcome is counted in the same transaction, the ID is
+   * settled in the slice of the run that queued it, and the summary
+   * fingerprint it was queued with is stored (its detail is stored now).
    */
-  async markProcessed(id: string): Promise<void> {
-    await this.redis.sadd(this.processedIdsKey, id);
+  async markProcessed(id: string, outcome?: ChangeOutcome): Promise<void> {
+    const { segment, prefix, runId } = await this.currentEpochPrefixOf(id);
+    const summary = await this.redis.hget(this.pendingSummariesKey, id);
+    const transaction = this.redis.multi();
+    if (summary) {
+      transaction.hset(this.summariesKey, id, summary);
+      transaction.hdel(this.pendingSummariesKey, id);
+    }
+    transaction.sadd(this.segmentKey(segment, 'processed'), id);
+    transaction.sadd(`${prefix}:processed`, id);
+    transaction.zrem(this.leasesKey, id);
+    transaction.hdel(this.leaseOwnersKey, id);
+    if (outcome) {
+      this.countChange(transaction, outcome);
+    }
+    if (runId !== undefined) {
+      transaction.hincrby(this.runKey(runId), 'pending', -1);
+    }
+    await transaction.exec();
   }
 
   /**
-   * Mark listing ID as failed
+   * Mark listing ID as failed and record it in the dead-letter store
    */
-  async markFailed(id: string, error?: string): Promise<void> {
-    await this.redis.sadd(this.failedIdsKey, id);
+  async markFailed(id: string, error?: string, details: DeadLetterDetails = {}): Promise<void> {
+    const now = Date.now();
+    const previous = await this.getDeadLetter(id);
+    const record: DeadLetterRecord = {
+      id,
+      error: error || 'Unknown error',
+      errorClass: details.errorClass || 'unknown',
+      httpStatus: details.httpStatus,
+      strategy: details.strategy,
+      attempts: details.attempts ?? ((await this.getRetryCount(id)) + 1),
+      workerId: details.workerId,
+      firstFailedAt: previous?.firstFailedAt || now,
+      failedAt: now,
+    };
+
+    const { prefix, runId } = await this.currentEpochPrefixOf(id);
+    const pipeline = this.redis.pipeline();
+    pipeline.sadd(this.failedIdsKey, id);
+    pipeline.hincrby(`${prefix}:stats`, 'failed', 1);
     if (error) {
-      await this.redis.hset(`${this.failedIdsKey}:errors`, id, error);
+      pipeline.hset(`${this.failedIdsKey}:errors`, id, error);
+    }
+    pipeline.hset(this.deadLettersKey, id, JSON.stringify(record));
+    pipeline.zadd(this.deadLettersByTimeKey, now, id);
+    pipeline.zrem(this.leasesKey, id);
+    pipeline.hdel(this.leaseOwnersKey, id);
+    // Fetch it again next run even if its summary is unchanged
+    pipeline.hdel(this.summariesKey, id);
+    pipeline.hdel(this.pendingSummariesKey, id);
+    if (runId !== undefined) {
+      pipeline.hincrby(this.runKey(runId), 'pending', -1);
     }
+    await pipeline.exec();
+  }
+
+  /**
+   * Get dead-letter record for a listing ID
+   */
+  async getDeadLetter(id: string): Promise<DeadLetterRecord | null> {
+    const json = await this.redis.hget(this.deadLettersKey, id);
+    return json ? JSON.parse(json) : null;
+  }
+
+  /**
+   * Get dead-letter records matching a filter (oldest first)
+   */
+  async getDeadLetters(filter: DeadLetterFilter = {}): Promise<DeadLetterRecord[]> {
+    const ids = await this.redis.zrangebyscore(
+      this.deadLettersByTimeKey,
+      filter.since ?? '-inf',
+      filter.until ?? '+inf'
+    );
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const records: DeadLetterRecord[] = [];
+    const batchSize = 1000;
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const values = await this.redis.hmget(this.deadLettersKey, ...ids.slice(i, i + batchSize));
+      for (const json of values) {
+        if (!json) continue;
+        const record: DeadLetterRecord = JSON.parse(json);
+        if (matchesDeadLetterFilter(record, filter)) {
+          records.push(record);
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Re-queue dead letters matching a filter (detached from the run that
+   * queued them, which counted them as failed already)
+   * Returns the number of listings re-queued
+   */
+  async replayDeadLetters(filter: DeadLetterFilter = {}): Promise<number> {
+    const records = await this.getDeadLetters(filter);
+    if (records.length === 0) {
+      return 0;
+    }
+
+    const routes = await this.getRoutes(records.map(record => record.id));
+    const pipeline = this.redis.pipeline();
+    records.forEach(({ id }, idx) => {
+      pipeline.srem(this.failedIdsKey, id);
+      pipeline.hdel(`${this.failedIdsKey}:errors`, id);
+      pipeline.hdel(this.deadLettersKey, id);
+      pipeline.zrem(this.deadLettersByTimeKey, id);
+      pipeline.hdel(this.retriesKey, id); // Reset retry count
+      pipeline.hset(this.routesKey, id, JSON.stringify({ segment: routes[idx].segment, lane: routes[idx].lane }));
+      pipeline.lpush(this.laneKey(routes[idx].segment, routes[idx].lane), id);
+    });
+    await pipeline.exec();
+
+    logger.info(`Replayed ${records.length} dead letters`);
+    return records.length;
   }
 
   /**
@@ -191,12 +947,26 @@ export class RedisQueue {
 
   /**
    * Re-queue failed listing with retry check
+   *
+   * With a delay the listing is parked in the retry schedule and moved back
+   * onto the queue by promoteDueRetries once the delay has passed.
    */
-  async requeueWithRetry(id: string, maxRetries: number = 3): Promise<boolean> {
+  async requeueWithRetry(id: string, maxRetries: number = 3, delayMs: number = 0): Promise<boolean> {
     const retries = await this.incrementRetry(id);
 
     if (retries <= maxRetries) {
-      await this.redis.lpush(this.queueKey, id);
+      // Re-queue (or schedule) and release the lease in one transaction
+      const transaction = this.redis.multi();
+      if (delayMs > 0) {
+        transaction.zadd(this.retryScheduleKey, Date.now() + delayMs, id);
+      } else {
+        const [route] = await this.getRoutes([id]);
+        transaction.lpush(this.laneKey(route.segment, route.lane), id);
+      }
+      await transaction
+        .zrem(this.leasesKey, id)
+        .hdel(this.leaseOwnersKey, id)
+        .exec();
       return true;
     } else {
       await this.markFailed(id, `Max retries (${maxRetries}) exceeded`);
@@ -205,41 +975,114 @@ export class RedisQueue {
   }
 
   /**
-   * Get queue statistics
+   * Move due scheduled retries back onto the queue
+   * Returns the number of listings moved
+   */
+  async promoteDueRetries(limit: number = 1000): Promise<number> {
+    return await this.redis.eval(
+      PROMOTE_RETRIES_SCRIPT,
+      2,
+      this.retryScheduleKey,
+      this.routesKey,
+      Date.now(),
+      limit,
+      this.segmentPrefix,
+      defaultSegment()
+    ) as number;
+  }
+
+  /**
+   * Get number of listings waiting for a scheduled retry
+   */
+  async getScheduledRetryCount(): Promise<number> {
+    return await this.redis.zcard(this.retryScheduleKey);
+  }
+
+  /**
+   * Get queue statistics, summed over the given segments (default: all)
+   * Failed, in-flight and scheduled retry counts are cluster-wide.
    */
-  async getStats(): Promise<QueueStats> {
+  async getStats(segments?: string[]): Promise<QueueStats> {
+    const targets = segments || await this.getSegments();
     const pipeline = this.redis.pipeline();
-    pipeline.llen(this.queueKey);           // Queue depth
-    pipeline.scard(this.allIdsKey);         // Total discovered
-    pipeline.scard(this.processedIdsKey);   // Processed count
     pipeline.scard(this.failedIdsKey);      // Failed count
+    pipeline.zcard(this.leasesKey);         // In flight
+    pipeline.zcard(this.retryScheduleKey);  // Scheduled retries
     pipeline.hget(this.statsKey, 'started_at');
+    for (const segment of targets) {
+      pipeline.scard(this.segmentKey(segment, 'all_ids'));   // Discovered
+      pipeline.scard(this.segmentKey(segment, 'processed')); // Processed
+      for (const lane of QUEUE_LANES) {
+        pipeline.llen(this.laneKey(segment, lane));          // Lane depths
+      }
+    }
 
     const results = await pipeline.exec();
-
-    const queueDepth = (results![0][1] as number) || 0;
-    const totalDiscovered = (results![1][1] as number) || 0;
-    const processedCount = (results![2][1] as number) || 0;
-    const failedCount = (results![3][1] as number) || 0;
-    const startedAt = results![4][1] as string | null;
+    const count = (idx: number) => (results![idx][1] as number) || 0;
+
+    const failedCount = count(0);
+    const inFlight = count(1);
+    const retryScheduled = count(2);
+    const startedAt = results![3][1] as string | null;
+
+    let totalDiscovered = 0;
+    let processedCount = 0;
+    const laneDepths = Object.fromEntries(QUEUE_LANES.map(lane => [lane, 0])) as Record<QueueLane, number>;
+    const perSegment = 2 + QUEUE_LANES.length;
+    targets.forEach((segment, segmentIdx) => {
+      const offset = 4 + segmentIdx * perSegment;
+      totalDiscovered += count(offset);
+      processedCount += count(offset + 1);
+      QUEUE_LANES.forEach((lane, laneIdx) => {
+        laneDepths[lane] += count(offset + 2 + laneIdx);
+      });
+    });
+    const queueDepth = Object.values(laneDepths).reduce((sum, depth) => sum + depth, 0);
 
     return {
       queueDepth,
+      laneDepths,
       totalDiscovered,
       processedCount,
       failedCount,
+      inFlight,
+      retryScheduled,
       remaining: queueDepth,
       startedAt: startedAt || undefined,
     };
   }
 
   /**
-   * Get processing progress percentage
+   * Get per-segment statistics (default: all known segments)
    */
-  async getProgress(): Promise<number> {
-    const stats = await this.getStats();
-    if (stats.totalDiscovered === 0) return 0;
-    return (stats.processedCount / stats.totalDiscovered) * 100;
+  async getSegmentStats(segments?: string[]): Promise<SegmentStats[]> {
+    const targets = segments || await this.getSegments();
+    const results: SegmentStats[] = [];
+
+    for (const segment of targets) {
+      const stats = await this.getStats([segment]);
+      const epoch = await this.getEpochStats(undefined, segment);
+      results.push({
+        segment,
+        queueDepth: stats.queueDepth,
+        laneDepths: stats.laneDepths,
+        totalDiscovered: stats.totalDiscovered,
+        processedCount: stats.processedCount,
+        epoch,
+        progress: epoch.queued === 0 ? 0 : (epoch.processed / epoch.queued) * 100,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Get processing progress percentage of a segment's current epoch
+   */
+  async getProgress(segment: string = defaultSegment()): Promise<number> {
+    const stats = await this.getEpochStats(undefined, segment);
+    if (stats.queued === 0) return 0;
+    return (stats.processed / stats.queued) * 100;
   }
 
   /**
@@ -247,16 +1090,81 @@ export class RedisQueue {
    */
   async clear(): Promise<void> {
     await this.redis.del(
-      this.queueKey,
-      this.allIdsKey,
-      this.processedIdsKey,
+      this.segmentsKey,
+      this.routesKey,
+      this.categoriesKey,
+      this.summariesKey,
+      this.pendingSummariesKey,
       this.failedIdsKey,
       this.retriesKey,
-      this.statsKey
+      this.statsKey,
+      this.leasesKey,
+      this.leaseOwnersKey,
+      this.retryScheduleKey,
+      `${this.failedIdsKey}:errors`,
+      this.deadLettersKey,
+      this.deadLettersByTimeKey,
+      this.workersKey,
+      this.workerHeartbeatsKey
     );
+
+    // Segment queues, dedupe sets and epochs, run slices
+    const segmentKeys = [
+      ...(await this.scanKeys(`${this.segmentPrefix}*`)),
+      ...(await this.scanKeys(`${this.namespace}:run:*`)),
+    ];
+    for (let i = 0; i < segmentKeys.length; i += 1000) {
+      await this.redis.del(...segmentKeys.slice(i, i + 1000));
+    }
     logger.warn('Queue data cleared');
   }
 
+  /**
+   * Move pre-segment queue data (global lanes, all_ids, processed) into the
+   * default segment (one-time migration). Pre-segment epochs are dropped.
+   * Returns the number of queued IDs moved
+   */
+  async migrateToSegments(): Promise<number> {
+    const segment = defaultSegment();
+    const legacyQueuePrefix = `${this.namespace}:queue:`;
+    let moved = 0;
+
+    for (const lane of QUEUE_LANES) {
+      while (await this.redis.lmove(`${legacyQueuePrefix}${lane}`, this.laneKey(segment, lane), 'RIGHT', 'LEFT')) {
+        moved++;
+      }
+    }
+
+    for (const name of ['all_ids', 'processed']) {
+      const legacyKey = `${this.namespace}:${name}`;
+      await this.redis.sunionstore(this.segmentKey(segment, name), this.segmentKey(segment, name), legacyKey);
+      await this.redis.del(legacyKey);
+    }
+
+    const legacyEpochKeys = await this.scanKeys(`${this.namespace}:epoch*`);
+    if (legacyEpochKeys.length > 0) {
+      await this.redis.del(...legacyEpochKeys);
+    }
+
+    await this.redis.sadd(this.segmentsKey, segment);
+    logger.info(`Migrated pre-segment queue data to segment ${segment} (${moved} queued IDs)`);
+    return moved;
+  }
+
+  /**
+   * Find keys matching a pattern without blocking Redis (SCAN)
+   */
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', pattern, 'COUNT', 1000);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+    return keys;
+  }
+
   /**
    * Get failed listing IDs
    */
@@ -265,7 +1173,8 @@ export class RedisQueue {
   }
 
   /**
-   * Retry all failed listings
+   * Retry all failed listings (detached from the run that queued them, as
+   * replayDeadLetters)
    */
   async retryFailedListings(): Promise<number> {
     const failedIds = await this.getFailedIds();
@@ -274,13 +1183,17 @@ export class RedisQueue {
       return 0;
     }
 
-    // Remove from failed set and add back to queue
+    // Remove from failed set and add back to its lane
+    const routes = await this.getRoutes(failedIds);
     const pipeline = this.redis.pipeline();
-    for (const id of failedIds) {
+    failedIds.forEach((id, idx) => {
       pipeline.srem(this.failedIdsKey, id);
-      pipeline.lpush(this.queueKey, id);
+      pipeline.hdel(this.deadLettersKey, id);
+      pipeline.zrem(this.deadLettersByTimeKey, id);
+      pipeline.hset(this.routesKey, id, JSON.stringify({ segment: routes[idx].segment, lane: routes[idx].lane }));
+      pipeline.lpush(this.laneKey(routes[idx].segment, routes[idx].lane), id);
       pipeline.hdel(this.retriesKey, id); // Reset retry count
-    }
+    });
     await pipeline.exec();
 
     logger.info(`Re-queued ${failedIds.length} failed listings`);
@@ -302,6 +1215,88 @@ export class RedisQueue {
     return this.redis.status === 'ready';
   }
 
+  // ===== WORKER REGISTRY =====
+
+  /**
+   * Register or refresh a worker entry (call on start and as heartbeat)
+   */
+  async heartbeatWorker(info: Omit<WorkerInfo, 'heartbeatAt'>): Promise<void> {
+    const entry: WorkerInfo = { ...info, heartbeatAt: Date.now() };
+    await this.redis
+      .pipeline()
+      .hset(this.workersKey, info.workerId, JSON.stringify(entry))
+      .zadd(this.workerHeartbeatsKey, entry.heartbeatAt, info.workerId)
+      .exec();
+  }
+
+  /**
+   * Remove a worker entry (clean shutdown)
+   */
+  async unregisterWorker(workerId: string): Promise<void> {
+    await this.redis
+      .pipeline()
+      .hdel(this.workersKey, workerId)
+      .zrem(this.workerHeartbeatsKey, workerId)
+      .exec();
+  }
+
+  /**
+   * Get all registered workers (including stale ones not yet recovered)
+   */
+  async getWorkers(): Promise<WorkerInfo[]> {
+    const entries = await this.redis.hgetall(this.workersKey);
+    return Object.values(entries)
+      .map(json => JSON.parse(json) as WorkerInfo)
+      .sort((a, b) => a.workerId.localeCompare(b.workerId));
+  }
+
+  /**
+   * Recover work from workers whose heartbeat is older than staleAfterMs:
+   * their leases go back onto the queue, a verifier's current listing goes
+   * back onto the missing queue, and the registry entry is removed.
+   * Safe to run from several workers at once (each stale worker is claimed once).
+   */
+  async recoverStaleWorkers(staleAfterMs: number = config.workerStaleAfterMs): Promise<RecoveredWorker[]> {
+    const staleIds = await this.redis.zrangebyscore(
+      this.workerHeartbeatsKey,
+      '-inf',
+      Date.now() - staleAfterMs
+    );
+    const recovered: RecoveredWorker[] = [];
+
+    for (const workerId of staleIds) {
+      // Claim the stale worker; another process may have recovered it already
+      const claimed = await this.redis.zrem(this.workerHeartbeatsKey, workerId);
+      if (claimed === 0) continue;
+
+      const json = await this.redis.hget(this.workersKey, workerId);
+      const info: WorkerInfo | null = json ? JSON.parse(json) : null;
+      const kind = info?.kind || 'worker';
+
+      const recoveredIds = await this.redis.eval(
+        RELEASE_WORKER_LEASES_SCRIPT,
+        3,
+        this.leasesKey,
+        this.leaseOwnersKey,
+        this.routesKey,
+        workerId,
+        this.segmentPrefix,
+        defaultSegment()
+      ) as string[];
+
+      if (kind === 'verifier' && info?.currentListing) {
+        await this.redis.lpush(`${this.namespace}:missing_queue`, info.currentListing);
+        recoveredIds.push(info.currentListing);
+      }
+
+      await this.redis.hdel(this.workersKey, workerId);
+      logger.warn(`Recovered stale ${kind} ${workerId} (${recoveredIds.length} listings re-queued)`);
+      recovered.push({ workerId, kind, recoveredIds });
+    }
+
+    return recovered;
+  }
+
   // ===== CHANGE DETECTION & MISSING PROPERTY TRACKING =====
 
   /**
@@ -309,14 +1304,14 @@ export class RedisQueue {
    */
   async updateLastSeen(id: string): Promise<void> {
     const timestamp = Date.now();
-    await this.redis.set(`${this.namespace}:last_seen:${id}`, timestamp);
+    await this.redis.zadd(this.lastSeenIndexKey, timestamp, id);
   }
 
   /**
    * Get last seen timestamp for a property
    */
   async getLastSeen(id: string): Promise<number | null> {
-    const timestamp = await this.redis.get(`${this.namespace}:last_seen:${id}`);
+    const timestamp = await this.redis.zscore(this.lastSeenIndexKey, id);
     return timestamp ? parseInt(timestamp, 10) : null;
   }
 
@@ -325,21 +1320,41 @@ export class RedisQueue {
    * Returns array of property IDs that may be inactive/removed
    */
   async findMissingProperties(hoursThreshold: number = 12): Promise<string[]> {
-    const allIds = await this.redis.smembers(this.allIdsKey);
-    const missingIds: string[] = [];
     const cutoffTime = Date.now() - (hoursThreshold * 60 * 60 * 1000);
+    return await this.redis.zrangebyscore(this.lastSeenIndexKey, '-inf', `(${cutoffTime}`);
+  }
+
+  /**
+   * Build the last-seen index from legacy per-ID last_seen:<id> keys
+   * (one-time migration). Newer index entries are never overwritten.
+   * Returns the number of legacy keys migrated
+   */
+  async migrateLastSeenIndex(deleteLegacyKeys: boolean = false): Promise<number> {
+    const legacyPrefix = `${this.namespace}:last_seen:`;
+    let migrated = 0;
+    let cursor = '0';
 
-    // Check each property's last_seen timestamp
-    for (const id of allIds) {
-      const lastSeen = await this.getLastSeen(id);
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${legacyPrefix}*`, 'COUNT', 1000);
+      cursor = next;
+      if (keys.length === 0) continue;
 
-      if (!lastSeen || lastSeen < cutoffTime) {
-        // Property not seen recently
-        missingIds.push(id);
+      const values = await this.redis.mget(...keys);
+      const pipeline = this.redis.pipeline();
+      keys.forEach((key, idx) => {
+        const timestamp = parseInt(values[idx] || '', 10);
+        if (isNaN(timestamp)) return;
+        pipeline.zadd(this.lastSeenIndexKey, 'GT', timestamp, key.slice(legacyPrefix.length));
+        migrated++;
+      });
+      if (deleteLegacyKeys) {
+        pipeline.del(...keys);
       }
-    }
+      await pipeline.exec();
+    } while (cursor !== '0');
 
-    return missingIds;
+    logger.info(`Migrated ${migrated} last_seen keys to the index`);
+    return migrated;
   }
 
   /**
@@ -383,7 +1398,21 @@ export class RedisQueue {
     await this.redis.sadd(verifiedInactiveKey, id);
 
     // Remove from processed to allow re-verification if it comes back
-    await this.redis.srem(this.processedIdsKey, id);
+    const [{ segment }] = await this.getRoutes([id]);
+    await this.redis.srem(this.segmentKey(segment, 'processed'), id);
+
+    // Stop reporting it as missing until it is discovered again
+    await this.redis.zrem(this.lastSeenIndexKey, id);
+  }
+
+  /**
+   * Clear the verified-inactive flag of a property that is back online
+   * (so it can be verified again if it goes missing)
+   * Returns true if the property was marked inactive
+   */
+  async markReactivated(id: string): Promise<boolean> {
+    const verifiedInactiveKey = `${this.namespace}:verified_inactive`;
+    return (await this.redis.srem(verifiedInactiveKey, id)) === 1;
   }
 
   /**
@@ -412,33 +1441,6 @@ export class RedisQueue {
 
   // ===== CHANGE DETECTION & SNAPSHOTS =====
 
-  /**
-   * Calculate checksum of important property fields (Italian properties)
-   */
-  private calculatePropertyChecksum(property: any): string {
-    // Gather all important fields for Italian properties
-    const importantData = {
-      price: property.price?.value || 0,
-      title: property.title || '',
-      description: property.description || '',
-      surface: property.surface || 0,
-      rooms: property.rooms || 0,
-      bathrooms: property.bathrooms || 0,
-      floor: property.floor || '',
-      images: (property.multimedia?.images || []).map((img: any) => img.url).join('|'),
-      features: (property.features || []).sort().join('|'),
-      properties: JSON.stringify((property.properties || []).sort()),
-      location: JSON.stringify(property.location || {}),
-      typology: property.typology || '',
-    };
-
-    // Create JSON string of all important data
-    const dataString = JSON.stringify(importantData);
-
-    // Calculate SHA256 checksum
-    return crypto.createHash('sha256').update(dataString).digest('hex');
-  }
-
   /**
    * Store property snapshot for change detection
    */
@@ -446,7 +1448,7 @@ export class RedisQueue {
     const snapshotKey = `${this.namespace}:snapshot:${id}`;
 
     // Calculate comprehensive checksum
-    const checksum = this.calculatePropertyChecksum(property);
+    const checksum = calculatePropertyChecksum(property);
 
     // Create snapshot with individual fields AND checksum
     const snapshot = {
@@ -457,13 +1459,17 @@ export class RedisQueue {
       updated_at: Date.now().toString(),
     };
 
-    await this.redis.hset(snapshotKey, snapshot as any);
+    // hset adds fields only when the snapshot is new
+    const added = await this.redis.hset(snapshotKey, snapshot as any);
+    if (added > 0) {
+      await this.redis.incr(this.snapshotCountKey);
+    }
   }
 
   /**
    * Get property snapshot
    */
-  async getPropertySnapshot(id: string): Promise<any | null> {
+  async getPropertySnapshot(id: string): Promise<PropertySnapshot | null> {
     const snapshotKey = `${this.namespace}:snapshot:${id}`;
     const snapshot = await this.redis.hgetall(snapshotKey);
 
@@ -483,41 +1489,109 @@ export class RedisQueue {
   /**
    * Detect changes between current property and snapshot
    * Uses comprehensive checksum comparison for efficiency
-   * Returns true if property has changed
+   * Returns 'new' if there is no snapshot yet
    */
-  async hasPropertyChanged(id: string, currentProperty: any): Promise<boolean> {
+  async detectChange(id: string, currentProperty: any): Promise<ChangeOutcome> {
     const snapshot = await this.getPropertySnapshot(id);
 
-    // If no snapshot, it's a new property (considered changed)
     if (!snapshot) {
-      return true;
+      return 'new';
     }
 
-    // Calculate current property checksum
-    const currentChecksum = this.calculatePropertyChecksum(currentProperty);
-
     // Compare checksums - single comparison for all fields!
-    if (snapshot.checksum !== currentChecksum) {
-      return true;
+    const currentChecksum = calculatePropertyChecksum(currentProperty);
+    return snapshot.checksum !== currentChecksum ? 'changed' : 'unchanged';
+  }
+
+  /**
+   * Detect changes between current property and snapshot
+   * Returns true if property has changed (or is new)
+   */
+  async hasPropertyChanged(id: string, currentProperty: any): Promise<boolean> {
+    return (await this.detectChange(id, currentProperty)) !== 'unchanged';
+  }
+
+  // ===== CHANGE COUNTERS =====
+
+  /**
+   * Queue counter increments for a change outcome (total, hourly, daily)
+   * Rollup buckets expire after their retention window.
+   */
+  private countChange(transaction: ChainableCommander, outcome: ChangeOutcome): void {
+    const now = Date.now();
+    const hourKey = `${this.changesKey}:hour:${changeBucket('hour', now)}`;
+    const dayKey = `${this.changesKey}:day:${changeBucket('day', now)}`;
+
+    transaction.hincrby(`${this.changesKey}:total`, outcome, 1);
+    transaction.hincrby(hourKey, outcome, 1);
+    transaction.expire(hourKey, config.changeStatsHourlyRetentionHours * 3600);
+    transaction.hincrby(dayKey, outcome, 1);
+    transaction.expire(dayKey, config.changeStatsDailyRetentionDays * 86400);
+  }
+
+  /**
+   * Read change counter hashes
+   */
+  private async getChangeCounters(keys: string[]): Promise<ChangeCounters[]> {
+    const pipeline = this.redis.pipeline();
+    for (const key of keys) {
+      pipeline.hgetall(key);
     }
+    const results = await pipeline.exec();
 
-    return false;
+    return results!.map(([, value]) => {
+      const counters = (value as Record<string, string>) || {};
+      return {
+        new: parseInt(counters.new || '0', 10),
+        changed: parseInt(counters.changed || '0', 10),
+        unchanged: parseInt(counters.unchanged || '0', 10),
+      };
+    });
+  }
+
+  /**
+   * Get change counters of the last N hourly or daily buckets (newest first,
+   * the current bucket included)
+   */
+  async getChangeRollups(granularity: 'hour' | 'day', count: number): Promise<ChangeRollup[]> {
+    const step = granularity === 'hour' ? 3600000 : 86400000;
+    const now = Date.now();
+    const buckets = Array.from({ length: count }, (_, idx) => changeBucket(granularity, now - idx * step));
+
+    const counters = await this.getChangeCounters(
+      buckets.map(bucket => `${this.changesKey}:${granularity}:${bucket}`)
+    );
+    return buckets.map((bucket, idx) => ({ bucket, ...counters[idx] }));
   }
 
   /**
    * Get change statistics
    */
-  async getChangeStats(): Promise<{
-    totalSnapshots: number;
-    snapshotsWithChanges: number;
-  }> {
-    // Count snapshots
-    const pattern = `${this.namespace}:snapshot:*`;
-    const keys = await this.redis.keys(pattern);
+  async getChangeStats(): Promise<ChangeStats> {
+    const now = Date.now();
+    const [totals, lastHour, today] = await this.getChangeCounters([
+      `${this.changesKey}:total`,
+      `${this.changesKey}:hour:${changeBucket('hour', now)}`,
+      `${this.changesKey}:day:${changeBucket('day', now)}`,
+    ]);
+    const totalSnapshots = await this.redis.get(this.snapshotCountKey);
 
     return {
-      totalSnapshots: keys.length,
-      snapshotsWithChanges: 0, // Would need to track separately
+      totalSnapshots: parseInt(totalSnapshots || '0', 10),
+      snapshotsWithChanges: totals.changed,
+      totals,
+      lastHour,
+      today,
     };
   }
+
+  /**
+   * Rebuild the snapshot counter by scanning snapshot keys (SCAN, so Redis is
+   * not blocked). Only needed once for snapshots stored before the counter.
+   */
+  async recountSnapshots(): Promise<number> {
+    const count = (await this.scanKeys(`${this.namespace}:snapshot:*`)).length;
+    await this.redis.set(this.snapshotCountKey, count);
+    return count;
+  }
 }
@@ -0,0 +1,143 @@
+/**
+ * Immobiliare.it Refresh Job
+ *
+ * Queues known properties for a detail refresh, choosing the lane from
+ * property_metadata.change_rate:
+ * - high_change: properties that change often (refreshed first)
+ * - refresh: routine refresh of properties not updated recently
+ * Each pass is a 'refresh' scrape run; workers count the results of the
+ * queued refreshes on it.
+ *
+ * Usage:
+ *   npm run refresh
+ */
+
+import { config } from './config';
+import { createLogger } from './logger';
+import { QueueBackend } from './queue-backend';
+import { createQueue } from './queue';
+import { ScraperStore, createScraperStore } from './database';
+import { finishQueueing } from './runs';
+
+const logger = createLogger('Refresh');
+
+export class ImmobiliareRefresher {
+  private queue: QueueBackend;
+  private db: ScraperStore;
+  private triggeredBy?: string;
+  private runId: number | null = null; // run being queued
+
+  /**
+   * triggeredBy names the scheduler job the runs are recorded under
+   */
+  constructor(deps: { queue?: QueueBackend; db?: ScraperStore; triggeredBy?: string } = {}) {
+    this.queue = deps.queue || createQueue('immobiliare');
+    this.db = deps.db || createScraperStore();
+    this.triggeredBy = deps.triggeredBy;
+  }
+
+  async initialize() {
+    await this.queue.initialize();
+    await this.db.initialize();
+    logger.info('Refresher initialized');
+  }
+
+  /**
+   * Queue high-change and stale properties onto their lanes (one run)
+   */
+  async run(
+    staleAfterHours: number = 24,
+    limit: number = 10000
+  ): Promise<{ highChange: number; routine: number }> {
+    const runId = await this.db.startScrapeRun('refresh', this.triggeredBy);
+    this.runId = runId;
+    let queued: { highChange: number; routine: number };
+    try {
+      queued = await this.queueRefreshes(runId, staleAfterHours, limit);
+    } catch (error) {
+      await this.abortRun(String(error));
+      throw error;
+    }
+
+    this.runId = null;
+    await finishQueueing(this.queue, this.db, runId, {
+      propertiesDiscovered: queued.highChange + queued.routine,
+      notes: `Queued ${queued.highChange} high-change and ${queued.routine} routine refreshes`,
+    });
+    return queued;
+  }
+
+  /**
+   * Mark the run being queued as failed (crash or shutdown; a run already
+   * draining is left to its workers)
+   */
+  async abortRun(reason: string): Promise<void> {
+    if (this.runId === null) return;
+    const runId = this.runId;
+    this.runId = null;
+    await this.db.failScrapeRun(runId, reason);
+  }
+
+  private async queueRefreshes(
+    runId: number,
+    staleAfterHours: number,
+    limit: number
+  ): Promise<{ highChange: number; routine: number }> {
+    // High-change properties first
+    const highChangeIds = await this.db.getHighChangeProperties(limit);
+    const highChange = await this.queue.enqueueRefresh(highChangeIds, 'high_change', runId);
+    logger.info(`Queued ${highChange} of ${highChangeIds.length} high-change properties`);
+
+    // Routine refresh of properties not updated recently
+    const due = await this.db.getPropertiesDueForRefresh(staleAfterHours, limit);
+    const highChangeDue = due
+      .filter(p => p.changeRate > config.highChangeRateThreshold)
+      .map(p => p.portalId);
+    const routineDue = due
+      .filter(p => p.changeRate <= config.highChangeRateThreshold)
+      .map(p => p.portalId);
+
+    const lateHighChange = await this.queue.enqueueRefresh(highChangeDue, 'high_change', runId);
+    const routine = await this.queue.enqueueRefresh(routineDue, 'refresh', runId);
+    logger.info(
+      `Queued ${routine + lateHighChange} of ${due.length} properties not refreshed in ${staleAfterHours}h`
+    );
+
+    return { highChange: highChange + lateHighChange, routine };
+  }
+
+  /**
+   * Close connections
+   */
+  async close(): Promise<void> {
+    await this.queue.close();
+    await this.db.close();
+    logger.info('Refresher closed');
+  }
+}
+
+// ===== Main Execution =====
+
+async function main() {
+  const refresher = new ImmobiliareRefresher();
+
+  try {
+    await refresher.initialize();
+    await refresher.run();
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  } finally {
+    await refresher.close();
+  }
+
+  process.exit(0);
+}
+
+// Execute
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -174,7 +174,7 @@ async function main() {
             try {
               const json = JSON.parse(body);
               logger.info(`\n--- JSON Response for ${url.slice(0, 80)} ---`);
-              logger.info('Data dump', json).slice(0, 2000));
+              logger.info(JSON.stringify(json, null, 2).slice(0, 2000));
               logger.info('---\n');
             } catch {
               // Not valid JSON
@@ -0,0 +1,122 @@
+/**
+ * Scrape Run Accounting
+ *
+ * A run is 'running' while it queues listing IDs and 'draining' once its
+ * queueing is done. Workers and the verifier count their results (new,
+ * changed, unchanged, inactive, errors) on the run that queued each ID, and
+ * the run is completed when the last ID of its queue slice is processed or
+ * failed. Running runs without activity for RUN_STALE_AFTER_MINUTES are
+ * marked failed; draining runs are completed after RUN_DRAIN_TIMEOUT_HOURS
+ * even if some of their IDs were re-queued by a later run. Areas an adaptive
+ * run scraped are rescheduled when it completes, from what its workers found.
+ */
+
+import { config } from './config';
+import { createLogger } from './logger';
+import type { QueueBackend } from './queue-backend';
+import type { ScraperStore } from './database';
+
+const logger = createLogger('Runs');
+
+export type RunCounts = Partial<Record<'new' | 'changed' | 'unchanged' | 'inactive' | 'errors', number>>;
+
+/**
+ * Complete a run if its queueing is done and its slice has drained
+ * (only one caller completes it)
+ */
+export async function finalizeIfDrained(queue: QueueBackend, db: ScraperStore, runId: number): Promise<boolean> {
+  if (!(await queue.claimRunFinalization(runId))) return false;
+  return await completeRun(db, runId);
+}
+
+/**
+ * Complete a draining run and reschedule the areas it scraped
+ */
+async function completeRun(db: ScraperStore, runId: number, note?: string): Promise<boolean> {
+  if (!(await db.finalizeScrapeRun(runId, note))) return false;
+  await updateScrapedAreas(db, runId);
+  return true;
+}
+
+/**
+ * Reschedule the areas a completed run scraped from their change rate:
+ * new listings plus known listings changed since the area's previous
+ * scrape, over the listings found (never scraped areas use the mean change
+ * rate of their listings). Errors are logged: the run is complete already.
+ */
+async function updateScrapedAreas(db: ScraperStore, runId: number): Promise<void> {
+  try {
+    for (const area of await db.takeAreaScrapes(runId)) {
+      const summary = await db.getListingChangeSummary(area.listingIds, area.previousScrape);
+      const changeRate = area.previousScrape
+        ? Math.min((area.newIds + summary.changedSince) / Math.max(area.listingIds.length, 1), 1)
+        : summary.avgChangeRate;
+
+      await db.updateAreaStats(area.areaName, 'city', {
+        changeRate,
+        totalProperties: area.listingIds.length,
+        activeProperties: summary.active,
+        avgChangesPerScrape: summary.avgChangeRate,
+        scrapedAt: area.scrapedAt,
+      });
+      logger.info(
+        `${area.areaName}: ${area.newIds} new, ${summary.changedSince} changed since last scrape ` +
+        `(change rate ${(changeRate * 100).toFixed(1)}%)`
+      );
+    }
+  } catch (error) {
+    logger.error(`Failed to reschedule the areas of run #${runId}:`, error);
+  }
+}
+
+/**
+ * Count a result on the run that queued a listing (undefined = queued
+ * without a run) and complete the run if that was its last pending ID.
+ * Accounting errors are logged, never thrown into the caller's processing.
+ */
+export async function recordRunResult(
+  queue: QueueBackend,
+  db: ScraperStore,
+  runId: number | undefined,
+  counts: RunCounts
+): Promise<void> {
+  if (runId === undefined) return;
+  try {
+    await db.incrementRunCounts(runId, counts);
+    await finalizeIfDrained(queue, db, runId);
+  } catch (error) {
+    logger.error(`Failed to record result on run #${runId}:`, error);
+  }
+}
+
+/**
+ * Mark a run's queueing as done: it drains from now on (and completes at
+ * once if nothing it queued is still pending)
+ */
+export async function finishQueueing(
+  queue: QueueBackend,
+  db: ScraperStore,
+  runId: number,
+  stats: { propertiesDiscovered: number; detailFetchesSkipped?: number; notes?: string }
+): Promise<void> {
+  await db.markRunDraining(runId, stats);
+  await queue.markRunQueued(runId);
+  await finalizeIfDrained(queue, db, runId);
+}
+
+/**
+ * Fail stale running runs and complete draining runs that have drained or
+ * timed out
+ */
+export async function sweepRuns(queue: QueueBackend, db: ScraperStore): Promise<void> {
+  await db.failStaleRuns(config.runStaleAfterMinutes);
+
+  const timeoutMs = config.runDrainTimeoutHours * 60 * 60 * 1000;
+  for (const { runId, queuedAt } of await db.getDrainingRuns()) {
+    if (await finalizeIfDrained(queue, db, runId)) continue;
+    if (Date.now() - queuedAt.getTime() >= timeoutMs) {
+      await completeRun(db, runId, `Completed after ${config.runDrainTimeoutHours}h with IDs still queued`);
+      logger.warn(`Run #${runId} did not drain within ${config.runDrainTimeoutHours}h, completed`);
+    }
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Immobiliare.it Scheduler
+ *
+ * Long-running process that triggers jobs on cron expressions evaluated in
+ * SCHEDULE_TIMEZONE (default Europe/Rome):
+ * - discovery: coordinator run (SCHEDULE_DISCOVERY, mode SCHEDULE_DISCOVERY_MODE)
+ * - verifier: sweep of properties missing from recent searches (SCHEDULE_VERIFIER)
+ * - refresh: queue high-change and stale properties (SCHEDULE_REFRESH)
+ *
+ * Triggers inside SCHEDULE_QUIET_HOURS are skipped, and so is a trigger
+ * while the job's previous run is still going (in this process only: run a
+ * single scheduler, a second one does not see the first one's jobs). Every trigger is recorded in
+ * scrape_runs (triggered_by = scheduler:<job>; skipped ones with the reason).
+ * Jobs record their own runs; runs still going at shutdown are marked failed.
+ * A scraper_health snapshot is written on SCHEDULE_HEALTH (quiet hours
+ * included, not recorded as a run).
+ *
+ * Usage:
+ *   npm run scheduler
+ */
+
+import { config } from './config';
+import { createLogger } from './logger';
+import { delay } from './utils';
+import { ScraperStore, createScraperStore } from './database';
+import { QueueBackend } from './queue-backend';
+import { createQueue } from './queue';
+import { recordHealthSnapshot } from './health';
+import { ImmobiliareCoordinator } from './coordinator';
+import { ImmobiliareVerifier } from './worker-verifier';
+import { ImmobiliareRefresher } from './refresh';
+import {
+  CronSchedule,
+  QuietWindow,
+  ZonedTime,
+  parseCron,
+  parseQuietHours,
+  toZonedTime,
+  matchesCron,
+  nextCronTime,
+  zonedMinuteKey,
+  isQuietTime,
+} from './cron';
+
+const logger = createLogger('Scheduler');
+
+type RunType = 'city' | 'geo' | 'verify' | 'refresh';
+
+interface ScheduledJob {
+  name: 'discovery' | 'verifier' | 'refresh';
+  schedule: CronSchedule;
+  runType: RunType;
+  run: (triggeredBy: string) => Promise<void>;
+}
+
+export class ImmobiliareScheduler {
+  private db: ScraperStore;
+  private queue: QueueBackend;
+  private jobs: ScheduledJob[] = [];
+  private healthSchedule: CronSchedule | null;
+  private quietWindows: QuietWindow[];
+  private timeZone: string;
+  private isRunning: boolean = false;
+  private runningJobs: Set<string> = new Set();
+  private activeRuns: Set<{ abortRun(reason: string): Promise<void> }> = new Set();
+  private lastTriggered: Map<string, string> = new Map(); // job -> wall-clock minute
+
+  /**
+   * Invalid cron expressions or quiet hours fail here, before anything runs
+   */
+  constructor() {
+    this.db = createScraperStore();
+    this.queue = createQueue('immobiliare');
+    this.timeZone = config.scheduleTimezone;
+    this.quietWindows = parseQuietHours(config.scheduleQuietHours);
+    this.healthSchedule = config.scheduleHealth.trim() ? parseCron(config.scheduleHealth) : null;
+
+    const discoveryRunType: RunType = config.scheduleDiscoveryMode === 'geo' ? 'geo' : 'city';
+    const definitions: Array<[ScheduledJob['name'], string, RunType, (triggeredBy: string) => Promise<void>]> = [
+      ['discovery', config.scheduleDiscovery, discoveryRunType, (triggeredBy) => this.runDiscovery(triggeredBy)],
+      ['verifier', config.scheduleVerifier, 'verify', (triggeredBy) => this.runVerifier(triggeredBy)],
+      ['refresh', config.scheduleRefresh, 'refresh', (triggeredBy) => this.runRefresh(triggeredBy)],
+    ];
+    for (const [name, expression, runType, run] of definitions) {
+      if (expression.trim()) {
+        this.jobs.push({ name, schedule: parseCron(expression), runType, run });
+      }
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.initialize();
+    await this.queue.initialize();
+
+    const now = new Date();
+    for (const job of this.jobs) {
+      const next = nextCronTime(job.schedule, now, this.timeZone);
+      logger.info(
+        `Job ${job.name}: "${job.schedule.expression}" (${this.timeZone}), ` +
+        `next ${next ? next.toISOString() : 'never'}`
+      );
+    }
+    if (this.healthSchedule) {
+      logger.info(`Health snapshots: "${this.healthSchedule.expression}"`);
+    }
+    if (this.quietWindows.length > 0) {
+      logger.info(`Quiet hours: ${config.scheduleQuietHours}`);
+    }
+    logger.info(`Scheduler initialized (${this.jobs.length} jobs)`);
+  }
+
+  /**
+   * Check the schedules at the start of every minute until stop()
+   */
+  async start(): Promise<void> {
+    this.isRunning = true;
+    logger.info('Scheduler started');
+
+    while (this.isRunning) {
+      await delay(60000 - (Date.now() % 60000));
+      if (!this.isRunning) break;
+      this.tick(new Date());
+    }
+
+    logger.info('Scheduler stopped');
+  }
+
+  /**
+   * Trigger the jobs due in this minute (each at most once per wall-clock
+   * minute, so a minute repeated by the DST change does not trigger twice)
+   */
+  private tick(now: Date): void {
+    const time = toZonedTime(now, this.timeZone);
+    const minuteKey = zonedMinuteKey(time);
+
+    for (const job of this.jobs) {
+      if (!matchesCron(job.schedule, time) || this.lastTriggered.get(job.name) === minuteKey) continue;
+      this.lastTriggered.set(job.name, minuteKey);
+      void this.trigger(job, time);
+    }
+
+    const health = this.healthSchedule;
+    if (health && matchesCron(health, time) && this.lastTriggered.get('health') !== minuteKey) {
+      this.lastTriggered.set('health', minuteKey);
+      void this.recordHealth();
+    }
+  }
+
+  /**
+   * Write a scraper_health snapshot (failures are logged, never thrown)
+   */
+  private async recordHealth(): Promise<void> {
+    try {
+      const health = await recordHealthSnapshot(this.queue, this.db);
+      logger.debug(`Recorded health: ${health.queueDepth} queued, ${health.workerCount} workers`);
+    } catch (error) {
+      logger.error('Failed to record health:', error);
+    }
+  }
+
+  /**
+   * Run a job unless in quiet hours or still running, recording the trigger
+   */
+  private async trigger(job: ScheduledJob, time: ZonedTime): Promise<void> {
+    const triggeredBy = `scheduler:${job.name}`;
+
+    try {
+      if (isQuietTime(time, this.quietWindows)) {
+        logger.info(`Skipping ${job.name} (quiet hours)`);
+        await this.db.recordSkippedRun(job.runType, triggeredBy, 'Quiet hours');
+        return;
+      }
+      if (this.runningJobs.has(job.name)) {
+        logger.warn(`Skipping ${job.name} (previous run still in progress)`);
+        await this.db.recordSkippedRun(job.runType, triggeredBy, 'Previous run still in progress');
+        return;
+      }
+
+      this.runningJobs.add(job.name);
+      logger.info(`Triggering ${job.name}`);
+      const startedAt = Date.now();
+      try {
+        await job.run(triggeredBy);
+        logger.info(`Job ${job.name} finished in ${Math.round((Date.now() - startedAt) / 1000)}s`);
+      } finally {
+        this.runningJobs.delete(job.name);
+      }
+    } catch (error) {
+      logger.error(`Job ${job.name} failed:`, error);
+    }
+  }
+
+  /**
+   * Discovery run (the coordinator records it in scrape_runs itself)
+   */
+  private async runDiscovery(triggeredBy: string): Promise<void> {
+    const coordinator = new ImmobiliareCoordinator({ triggeredBy });
+    this.activeRuns.add(coordinator);
+    try {
+      try {
+        await coordinator.initialize();
+      } catch (error) {
+        await this.recordFailedRun(config.scheduleDiscoveryMode === 'geo' ? 'geo' : 'city', triggeredBy, error);
+        throw error;
+      }
+
+      switch (config.scheduleDiscoveryMode) {
+        case 'geo':
+          await coordinator.scrapeGeoAreas();
+          break;
+        case 'adaptive':
+          await coordinator.scrapeDueAreas();
+          break;
+        default:
+          await coordinator.scrapeAllCities();
+      }
+    } finally {
+      this.activeRuns.delete(coordinator);
+      await coordinator.close();
+    }
+  }
+
+  /**
+   * Verifier sweep: queue properties missing from recent searches and verify
+   * them (the verifier records its run)
+   */
+  private async runVerifier(triggeredBy: string): Promise<void> {
+    const verifier = new ImmobiliareVerifier(undefined, { triggeredBy });
+    this.activeRuns.add(verifier);
+    try {
+      try {
+        await verifier.initialize();
+      } catch (error) {
+        await this.recordFailedRun('verify', triggeredBy, error);
+        throw error;
+      }
+      await verifier.start();
+    } finally {
+      this.activeRuns.delete(verifier);
+      await verifier.close();
+    }
+  }
+
+  /**
+   * Refresh pass: queue high-change and stale properties (the refresher
+   * records its run)
+   */
+  private async runRefresh(triggeredBy: string): Promise<void> {
+    const refresher = new ImmobiliareRefresher({ triggeredBy });
+    this.activeRuns.add(refresher);
+    try {
+      try {
+        await refresher.initialize();
+      } catch (error) {
+        await this.recordFailedRun('refresh', triggeredBy, error);
+        throw error;
+      }
+      await refresher.run();
+    } finally {
+      this.activeRuns.delete(refresher);
+      await refresher.close();
+    }
+  }
+
+  /**
+   * Record a trigger whose job failed before it could start a run
+   */
+  private async recordFailedRun(runType: RunType, triggeredBy: string, error: unknown): Promise<void> {
+    const runId = await this.db.startScrapeRun(runType, triggeredBy);
+    await this.db.failScrapeRun(runId, String(error));
+  }
+
+  /**
+   * Mark the runs of running jobs as failed (before the process exits)
+   */
+  async abortRuns(reason: string): Promise<void> {
+    for (const run of this.activeRuns) {
+      await run.abortRun(reason).catch(error => logger.error('Failed to abort run:', error));
+    }
+  }
+
+  /**
+   * Stop triggering jobs (running jobs are not interrupted)
+   */
+  stop(): void {
+    this.isRunning = false;
+    logger.info('Stopping scheduler...');
+  }
+
+  /**
+   * Close connections
+   */
+  async close(): Promise<void> {
+    await this.queue.close();
+    await this.db.close();
+    logger.info('Scheduler closed');
+  }
+}
+
+// ===== Main Execution =====
+
+async function main() {
+  logger.info('='.repeat(60));
+  logger.info('Immobiliare.it Scheduler');
+  logger.info('='.repeat(60));
+
+  const scheduler = new ImmobiliareScheduler();
+  activeScheduler = scheduler;
+
+  try {
+    await scheduler.initialize();
+    await scheduler.start();
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  } finally {
+    await scheduler.close();
+  }
+
+  process.exit(0);
+}
+
+// Handle graceful shutdown (runs of running jobs are marked failed)
+let activeScheduler: ImmobiliareScheduler | null = null;
+
+// Execute
+if (require.main === module) {
+  process.on('SIGINT', async () => {
+    logger.info('\nReceived SIGINT, shutting down gracefully...');
+    await activeScheduler?.abortRuns('Interrupted (SIGINT)');
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', async () => {
+    logger.info('\nReceived SIGTERM, shutting down gracefully...');
+    await activeScheduler?.abortRuns('Interrupted (SIGTERM)');
+    process.exit(0);
+  });
+
+  main().catch((error) => {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -16,29 +16,9 @@ import { Browser, BrowserContext, Page, chromium } from 'playwright';
 import { applyStealthConfig, applyPageStealth } from './stealth';
 import type { Property } from './types';
 import { parseApiResponse } from './parser.js';
-
-const BASE_URL = 'https://www.immobiliare.it';
+import { SearchSpec, SearchFilters, buildSearchUrl, hasFilters, filtersQuery } from './search-spec';
 const API_ENDPOINT = '/api-next/search-list/listings/';
 
-// Italian cities for search
-export const ITALIAN_CITIES = [
-  'milano',
-  'roma',
-  'napoli',
-  'torino',
-  'firenze',
-  'bologna',
-  'genova',
-  'palermo',
-  'venezia',
-  'verona',
-  'bari',
-  'catania',
-  'trieste',
-  'padova',
-  'brescia',
-];
-
 interface ProxyConfig {
   server: string;
   username?: string;
@@ -198,14 +178,6 @@ export class ImmobiliareScraper {
     });
   }
 
-  /**
-   * Build search URL for a city and transaction type
-   */
-  private buildSearchUrl(city: string, transactionType: 'sale' | 'rent'): string {
-    const type = transactionType === 'sale' ? 'vendita' : 'affitto';
-    return `${BASE_URL}/${type}/residenziale/${city.toLowerCase()}/`;
-  }
-
   /**
    * Scrape a single page and return intercepted API data
    */
@@ -313,21 +285,38 @@ export class ImmobiliareScraper {
     maxPages: number = 3,
     limit?: number
   ): Promise<Property[]> {
+    return this.scrapeSearch({ city, transactionType }, maxPages, limit);
+  }
+
+  /**
+   * Scrape a search spec for properties (maxPages result pages from
+   * spec.page, default 1)
+   */
+  async scrapeSearch(
+    spec: SearchSpec,
+    maxPages: number = 3,
+    limit?: number
+  ): Promise<Property[]> {
+    const { city, transactionType } = spec;
     this.logger.info(`\n${'='.repeat(60)}`);
-    this.logger.info(`🏙️  Scraping ${city} - ${transactionType}`);
+    this.logger.info(
+      `🏙️  Scraping ${city} - ${transactionType}` +
+      (spec.category ? ` - ${spec.category}` : '') +
+      (hasFilters(spec) ? ` (${filtersQuery(spec)})` : '')
+    );
     this.logger.info(`${'='.repeat(60)}`);
 
     const allProperties: Property[] = [];
-    const baseUrl = this.buildSearchUrl(city, transactionType);
+    const firstPage = spec.page ?? 1;
+    const lastPage = firstPage + maxPages - 1;
 
-    for (let page = 1; page <= maxPages; page++) {
+    for (let page = firstPage; page <= lastPage; page++) {
       if (limit && allProperties.length >= limit) {
         this.logger.info(`✅ Reached limit of ${limit} properties`);
         break;
       }
 
-      // Add page parameter for pages > 1
-      const url = page === 1 ? baseUrl : `${baseUrl}?pag=${page}`;
+      const url = buildSearchUrl({ ...spec, page });
 
       try {
         const properties = await this.scrapePage(url, page);
@@ -341,7 +330,7 @@ export class ImmobiliareScraper {
         this.logger.info(`📊 Page ${page}: Found ${properties.length} properties (total: ${allProperties.length})`);
 
         // Random delay between pages to avoid detection
-        if (page < maxPages && (!limit || allProperties.length < limit)) {
+        if (page < lastPage && (!limit || allProperties.length < limit)) {
           await randomDelay(this.options.minDelayMs!, this.options.maxDelayMs!);
         }
       } catch (error) {
@@ -365,9 +354,9 @@ export class ImmobiliareScraper {
   async scrapeCities(
     cities: string[],
     transactionType: 'sale' | 'rent' = 'sale',
-    options: { maxPagesPerCity?: number; limit?: number } = {}
+    options: { maxPagesPerCity?: number; limit?: number; filters?: SearchFilters } = {}
   ): Promise<Property[]> {
-    const { maxPagesPerCity = 3, limit } = options;
+    const { maxPagesPerCity = 3, limit, filters = {} } = options;
     const allProperties: Property[] = [];
 
     for (const city of cities) {
@@ -378,9 +367,8 @@ export class ImmobiliareScraper {
 
       try {
         const cityLimit = limit ? limit - allProperties.length : undefined;
-        const properties = await this.scrapeCity(
-          city,
-          transactionType,
+        const properties = await this.scrapeSearch(
+          { ...filters, city, transactionType },
           maxPagesPerCity,
           cityLimit
         );
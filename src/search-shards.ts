@@ -0,0 +1,209 @@
+/**
+ * Search Sharding for Listing Discovery
+ *
+ * Immobiliare.it only lets a search browse a limited number of result pages,
+ * so a city search with more results than that is split into shards (price
+ * range, surface range, typology, zone) until every shard fits under the cap.
+ * Splits are disjoint, so every listing matching a filter lands in one shard.
+ * Listings without a price or surface only show up in unfiltered searches.
+ * A search in progress is checkpointed after every page so a crashed run can
+ * be resumed from the next page. A filtered search (see ./search-spec) is
+ * sharded within its own price and surface bounds, typologies and zones.
+ */
+
+import { config, PropertyCategory } from './config';
+import { SearchFilters, setListParam } from './search-spec';
+
+export interface SearchShard {
+  minPrice?: number;
+  maxPrice?: number;   // undefined = no upper bound
+  minSurface?: number;
+  maxSurface?: number; // undefined = no upper bound
+  typology?: string;   // idTipologia
+  zone?: string;       // idMZona
+}
+
+/**
+ * Progress of a city/category search, saved after every result page
+ */
+export interface SearchCheckpoint {
+  city: string;
+  category: PropertyCategory;
+  transactionType: 'sale' | 'rent';
+  filters?: string;            // filters query of a targeted search (none = unfiltered)
+  pending: SearchShard[];      // shards still to search, the current one first
+  plan: SearchShard[];         // shards searched so far
+  planChanged: boolean;
+  nextPage: number;            // next result page of the current shard
+  shardExpected: number | null;   // totals reported by the current shard
+  shardTotalPages: number | null;
+  rootExpected: number | null;    // totals of the searched shards
+  shardsExpected: number | null;
+  totalPages: number | null;
+  pages: number;
+  actual: number;
+  newIds: number;
+}
+
+/**
+ * Key of a search checkpoint in a run ("milano/residenziale", plus
+ * "?<filters>" for a targeted search)
+ */
+export function checkpointKey(checkpoint: Pick<SearchCheckpoint, 'city' | 'category' | 'filters'>): string {
+  const key = `${checkpoint.city}/${checkpoint.category}`;
+  return checkpoint.filters ? `${key}?${checkpoint.filters}` : key;
+}
+
+/** Split dimensions, tried in SHARD_DIMENSIONS order */
+export type ShardDimension = typeof config.shardDimensions[number];
+
+/**
+ * Band breakpoints used for the first split of a dimension (the last band
+ * is open-ended); narrower bands are bisected afterwards.
+ */
+const PRICE_BREAKS: Record<'sale' | 'rent', number[]> = {
+  sale: [0, 100000, 200000, 300000, 500000, 1000000],
+  rent: [0, 500, 800, 1200, 2000, 5000],
+};
+const SURFACE_BREAKS = [0, 50, 80, 120, 200];
+
+/** Narrowest range that is still bisected */
+const MIN_PRICE_STEP: Record<'sale' | 'rent', number> = { sale: 5000, rent: 50 };
+const MIN_SURFACE_STEP = 5;
+
+/**
+ * Shard covering the whole search (within the price and surface bounds of
+ * its filters)
+ */
+export function rootShard(filters: SearchFilters = {}): SearchShard {
+  const shard: SearchShard = {};
+  if (filters.minPrice !== undefined) shard.minPrice = filters.minPrice;
+  if (filters.maxPrice !== undefined) shard.maxPrice = filters.maxPrice;
+  if (filters.minSurface !== undefined) shard.minSurface = filters.minSurface;
+  if (filters.maxSurface !== undefined) shard.maxSurface = filters.maxSurface;
+  return shard;
+}
+
+/**
+ * Typologies or zones a search can be split by: those of its filter (one
+ * alone leaves nothing to split), else the configured ones
+ */
+export function splitValues(filtered: string[] | undefined, configured: string[] = []): string[] {
+  if (!filtered) return configured;
+  return filtered.length > 1 ? filtered : [];
+}
+
+export function isRootShard(shard: SearchShard, filters: SearchFilters = {}): boolean {
+  const root = rootShard(filters);
+  const keys: Array<keyof SearchShard> = ['minPrice', 'maxPrice', 'minSurface', 'maxSurface', 'typology', 'zone'];
+  return keys.every(key => shard[key] === root[key]);
+}
+
+/**
+ * Human-readable shard description (for logs)
+ */
+export function describeShard(shard: SearchShard): string {
+  const parts: string[] = [];
+  if (shard.minPrice !== undefined || shard.maxPrice !== undefined) {
+    parts.push(`price ${shard.minPrice ?? 0}-${shard.maxPrice ?? '∞'}`);
+  }
+  if (shard.minSurface !== undefined || shard.maxSurface !== undefined) {
+    parts.push(`surface ${shard.minSurface ?? 0}-${shard.maxSurface ?? '∞'}m²`);
+  }
+  if (shard.typology) parts.push(`typology ${shard.typology}`);
+  if (shard.zone) parts.push(`zone ${shard.zone}`);
+  return parts.join(', ') || 'all';
+}
+
+/**
+ * Add the shard filters to a search URL (immobiliare.it query parameters;
+ * they replace the search's own price, surface, typology and zone filters)
+ */
+export function applyShardFilters(url: URL, shard: SearchShard): void {
+  if (shard.minPrice !== undefined && shard.minPrice > 0) url.searchParams.set('prezzoMinimo', String(shard.minPrice));
+  if (shard.maxPrice !== undefined) url.searchParams.set('prezzoMassimo', String(shard.maxPrice));
+  if (shard.minSurface !== undefined && shard.minSurface > 0) url.searchParams.set('superficieMinima', String(shard.minSurface));
+  if (shard.maxSurface !== undefined) url.searchParams.set('superficieMassima', String(shard.maxSurface));
+  if (shard.typology) setListParam(url, 'idTipologia', [shard.typology]);
+  if (shard.zone) setListParam(url, 'idMZona', [shard.zone]);
+}
+
+/**
+ * Split a numeric range: bands of the breakpoints first, then bisection
+ * (null = the range cannot be narrowed any further)
+ */
+function splitRange(
+  min: number | undefined,
+  max: number | undefined,
+  breaks: number[],
+  minStep: number
+): Array<[number, number | undefined]> | null {
+  if (min === undefined && max === undefined) {
+    return breaks.map((start, i) => [i === 0 ? start : start + 1, breaks[i + 1]]);
+  }
+
+  const low = min ?? 0;
+  if (max === undefined) {
+    // Open-ended top band: double its lower bound (bands start at break + 1)
+    const mid = Math.max(Math.max(low - 1, 0) * 2, low + minStep);
+    return [[low, mid], [mid + 1, undefined]];
+  }
+
+  if (max - low < minStep * 2) return null;
+  const mid = Math.floor((low + max) / 2);
+  return [[low, mid], [mid + 1, max]];
+}
+
+/**
+ * Whether a shard is already narrowed along a dimension
+ */
+function isSplitBy(shard: SearchShard, dimension: ShardDimension): boolean {
+  switch (dimension) {
+    case 'price': return shard.minPrice !== undefined || shard.maxPrice !== undefined;
+    case 'surface': return shard.minSurface !== undefined || shard.maxSurface !== undefined;
+    case 'typology': return shard.typology !== undefined;
+    case 'zone': return shard.zone !== undefined;
+  }
+}
+
+/**
+ * Split an oversized shard along the first dimension that can still be
+ * narrowed (SHARD_DIMENSIONS order; a dimension is no longer narrowed once
+ * a later one is split). null = cannot be split, the shard stays capped.
+ */
+export function splitShard(
+  shard: SearchShard,
+  transactionType: 'sale' | 'rent',
+  zones: string[] = [],
+  typologies: string[] = config.shardTypologies
+): SearchShard[] | null {
+  const dimensions = config.shardDimensions;
+
+  for (let i = 0; i < dimensions.length; i++) {
+    if (dimensions.slice(i + 1).some(later => isSplitBy(shard, later))) continue;
+
+    switch (dimensions[i]) {
+      case 'price': {
+        const ranges = splitRange(shard.minPrice, shard.maxPrice, PRICE_BREAKS[transactionType], MIN_PRICE_STEP[transactionType]);
+        if (ranges) return ranges.map(([minPrice, maxPrice]) => ({ ...shard, minPrice, maxPrice }));
+        break;
+      }
+      case 'surface': {
+        const ranges = splitRange(shard.minSurface, shard.maxSurface, SURFACE_BREAKS, MIN_SURFACE_STEP);
+        if (ranges) return ranges.map(([minSurface, maxSurface]) => ({ ...shard, minSurface, maxSurface }));
+        break;
+      }
+      case 'typology':
+        if (shard.typology === undefined && typologies.length > 0) {
+          return typologies.map(typology => ({ ...shard, typology }));
+        }
+        break;
+      case 'zone':
+        if (shard.zone === undefined && zones.length > 0) {
+          return zones.map(zone => ({ ...shard, zone }));
+        }
+        break;
+    }
+  }
+  return null;
+}
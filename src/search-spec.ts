@@ -0,0 +1,266 @@
+/**
+ * Search Specifications
+ *
+ * Typed immobiliare.it searches: location (city, sale or rent, category)
+ * plus filters (price, surface, rooms, bathrooms, typology, zone, new
+ * construction, auctions, furnished, features) and sort order. A spec
+ * serialises to the portal's search URL and query parameters and parses
+ * back from them, so a search built on the site can be copied into a
+ * discovery campaign.
+ */
+
+import { PropertyCategory, PROPERTY_CATEGORIES, DEFAULT_CATEGORY } from './config';
+
+const BASE_URL = 'https://www.immobiliare.it';
+
+export type SearchFeature = 'garden' | 'terrace' | 'elevator';
+
+export type SearchSort =
+  | 'relevance'
+  | 'price-asc'
+  | 'price-desc'
+  | 'surface-asc'
+  | 'surface-desc'
+  | 'newest';
+
+export interface SearchFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  minSurface?: number;     // m²
+  maxSurface?: number;
+  minRooms?: number;       // locali
+  maxRooms?: number;
+  minBathrooms?: number;
+  typologies?: string[];   // idTipologia
+  zones?: string[];        // idMZona
+  newConstruction?: boolean;
+  excludeAuctions?: boolean;
+  furnished?: boolean;
+  features?: SearchFeature[];
+  sort?: SearchSort;
+}
+
+export interface SearchSpec extends SearchFilters {
+  city: string;
+  transactionType: 'sale' | 'rent';
+  category?: PropertyCategory; // default residenziale
+  page?: number;               // default 1
+}
+
+/** Numeric filters and their query parameters */
+const NUMBER_PARAMS: Record<'minPrice' | 'maxPrice' | 'minSurface' | 'maxSurface' | 'minRooms' | 'maxRooms' | 'minBathrooms', string> = {
+  minPrice: 'prezzoMinimo',
+  maxPrice: 'prezzoMassimo',
+  minSurface: 'superficieMinima',
+  maxSurface: 'superficieMassima',
+  minRooms: 'localiMinimo',
+  maxRooms: 'localiMassimo',
+  minBathrooms: 'bagni',
+};
+
+/** List filters (indexed parameters: idTipologia[0], idTipologia[1], ...) */
+const LIST_PARAMS: Record<'typologies' | 'zones', string> = {
+  typologies: 'idTipologia',
+  zones: 'idMZona',
+};
+
+/** Flag filters (set = 1) */
+const FLAG_PARAMS: Record<'newConstruction' | 'excludeAuctions' | 'furnished', string> = {
+  newConstruction: 'nuoveCostruzioni',
+  excludeAuctions: 'noAste',
+  furnished: 'arredato',
+};
+
+const FEATURE_PARAMS: Record<SearchFeature, string> = {
+  garden: 'giardino',
+  terrace: 'terrazzo',
+  elevator: 'ascensore',
+};
+
+/** Sort orders as criterio (+ ordine) */
+const SORT_PARAMS: Record<SearchSort, [string, ('asc' | 'desc')?]> = {
+  'relevance': ['rilevanza'],
+  'price-asc': ['prezzo', 'asc'],
+  'price-desc': ['prezzo', 'desc'],
+  'surface-asc': ['superficie', 'asc'],
+  'surface-desc': ['superficie', 'desc'],
+  'newest': ['dataModifica', 'desc'],
+};
+
+const TRANSACTION_PATHS: Record<'sale' | 'rent', string> = { sale: 'vendita', rent: 'affitto' };
+
+/** Residential searches also come as /vendita-case/<city>/ on the portal */
+const RESIDENTIAL_ALIAS = 'case';
+
+const FLAG_VALUES = ['1', 'on', 'true'];
+
+/**
+ * Set an indexed list parameter (replacing any previous values)
+ */
+export function setListParam(url: URL, name: string, values: string[]): void {
+  for (const key of [...url.searchParams.keys()]) {
+    if (key === name || key.startsWith(`${name}[`)) url.searchParams.delete(key);
+  }
+  values.forEach((value, i) => url.searchParams.set(`${name}[${i}]`, value));
+}
+
+/**
+ * Add filters to a search URL (immobiliare.it query parameters)
+ */
+export function applySearchFilters(url: URL, filters: SearchFilters): void {
+  for (const [key, param] of Object.entries(NUMBER_PARAMS)) {
+    const value = filters[key as keyof typeof NUMBER_PARAMS];
+    if (value !== undefined) url.searchParams.set(param, String(value));
+  }
+  for (const [key, param] of Object.entries(LIST_PARAMS)) {
+    const values = filters[key as keyof typeof LIST_PARAMS];
+    if (values && values.length > 0) setListParam(url, param, values);
+  }
+  for (const [key, param] of Object.entries(FLAG_PARAMS)) {
+    if (filters[key as keyof typeof FLAG_PARAMS]) url.searchParams.set(param, '1');
+  }
+  for (const feature of filters.features ?? []) {
+    url.searchParams.set(FEATURE_PARAMS[feature], '1');
+  }
+  if (filters.sort) {
+    const [criterion, order] = SORT_PARAMS[filters.sort];
+    url.searchParams.set('criterio', criterion);
+    if (order) url.searchParams.set('ordine', order);
+  }
+}
+
+/**
+ * Search URL of a spec (residential: /vendita/residenziale/<city>/,
+ * others: /vendita-uffici/<city>/; page > 1 adds pag)
+ */
+export function buildSearchUrl(spec: SearchSpec): string {
+  const type = TRANSACTION_PATHS[spec.transactionType];
+  const category = spec.category ?? DEFAULT_CATEGORY;
+  const path = category === 'residenziale' ? `${type}/residenziale` : `${type}-${category}`;
+  const url = new URL(`${BASE_URL}/${path}/${spec.city.toLowerCase()}/`);
+  applySearchFilters(url, spec);
+  if (spec.page !== undefined && spec.page > 1) {
+    url.searchParams.set('pag', String(spec.page));
+  }
+  return url.toString();
+}
+
+/**
+ * Filters of a query string ("prezzoMassimo=300000&localiMinimo=3"); throws
+ * on unknown parameters or values so no filter is silently dropped
+ * (pag is ignored)
+ */
+export function parseSearchFilters(query: string | URLSearchParams): SearchFilters {
+  const params = typeof query === 'string' ? new URLSearchParams(query.replace(/^\?/, '')) : query;
+  const filters: SearchFilters = {};
+  const lists: Partial<Record<keyof typeof LIST_PARAMS, string[]>> = {};
+
+  const numberKeys = Object.entries(NUMBER_PARAMS);
+  const listKeys = Object.entries(LIST_PARAMS);
+  const flagKeys = Object.entries(FLAG_PARAMS);
+  const featureKeys = Object.entries(FEATURE_PARAMS);
+  const sortEntries = Object.entries(SORT_PARAMS);
+  let criterion: string | undefined;
+  let order: string | undefined;
+
+  for (const [param, value] of params) {
+    const number = numberKeys.find(([, name]) => name === param);
+    const list = listKeys.find(([, name]) => param === name || param.startsWith(`${name}[`));
+    const flag = flagKeys.find(([, name]) => name === param);
+    const feature = featureKeys.find(([, name]) => name === param);
+
+    if (number) {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`Invalid ${param} "${value}" (expected a number)`);
+      }
+      filters[number[0] as keyof typeof NUMBER_PARAMS] = parsed;
+    } else if (list) {
+      const key = list[0] as keyof typeof LIST_PARAMS;
+      (lists[key] ??= []).push(...value.split(',').map(s => s.trim()).filter(Boolean));
+    } else if (flag || feature) {
+      if (!FLAG_VALUES.includes(value.toLowerCase())) {
+        throw new Error(`Invalid ${param} "${value}" (expected 1)`);
+      }
+      if (flag) filters[flag[0] as keyof typeof FLAG_PARAMS] = true;
+      else (filters.features ??= []).push(feature![0] as SearchFeature);
+    } else if (param === 'criterio') {
+      criterion = value;
+    } else if (param === 'ordine') {
+      order = value;
+    } else if (param !== 'pag') {
+      throw new Error(`Unknown search parameter "${param}"`);
+    }
+  }
+
+  Object.assign(filters, lists);
+  if (criterion !== undefined) {
+    const sort = sortEntries.find(([, [name, direction]]) =>
+      name === criterion && (direction === undefined || direction === (order ?? 'asc'))
+    );
+    if (!sort) {
+      throw new Error(`Unknown sort order "${criterion}${order ? ` ${order}` : ''}"`);
+    }
+    filters.sort = sort[0] as SearchSort;
+  }
+  return filters;
+}
+
+/**
+ * Spec of a search URL (path /vendita/residenziale/<city>/,
+ * /vendita-case/<city>/ or /affitto-<category>/<city>/ plus filters)
+ */
+export function parseSearchUrl(input: string): SearchSpec {
+  const url = new URL(input, BASE_URL);
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  let typePath: string;
+  let categoryPath: string | undefined;
+  let city: string | undefined;
+  if (segments.length === 3 && segments[1] === 'residenziale') {
+    [typePath, , city] = segments;
+    categoryPath = 'residenziale';
+  } else if (segments.length === 2 && segments[0].includes('-')) {
+    const separator = segments[0].indexOf('-');
+    typePath = segments[0].slice(0, separator);
+    categoryPath = segments[0].slice(separator + 1);
+    city = segments[1];
+  } else {
+    throw new Error(`Not a search URL: "${input}"`);
+  }
+
+  const transactionType = (Object.keys(TRANSACTION_PATHS) as Array<'sale' | 'rent'>)
+    .find(type => TRANSACTION_PATHS[type] === typePath);
+  if (!transactionType) {
+    throw new Error(`Unknown transaction "${typePath}" in "${input}" (expected vendita or affitto)`);
+  }
+  const category = (categoryPath === RESIDENTIAL_ALIAS ? 'residenziale' : categoryPath) as PropertyCategory;
+  if (!PROPERTY_CATEGORIES.includes(category)) {
+    throw new Error(`Unknown category "${categoryPath}" in "${input}"`);
+  }
+
+  const page = parseInt(url.searchParams.get('pag') || '1', 10);
+  return {
+    city,
+    transactionType,
+    category,
+    ...parseSearchFilters(url.searchParams),
+    ...(page > 1 ? { page } : {}),
+  };
+}
+
+/**
+ * Whether any filter is set
+ */
+export function hasFilters(filters: SearchFilters): boolean {
+  return filtersQuery(filters) !== '';
+}
+
+/**
+ * Query string of filters ("" = none; for logs and notes)
+ */
+export function filtersQuery(filters: SearchFilters): string {
+  const url = new URL(BASE_URL);
+  applySearchFilters(url, filters);
+  return decodeURIComponent(url.searchParams.toString());
+}
@@ -3,7 +3,7 @@
  * Replaces @shared/stealth dependency
  */
 
-import type { Page, Browser } from 'playwright';
+import type { Page, Browser, BrowserContext } from 'playwright';
 
 export interface StealthConfig {
   userAgent?: string;
@@ -60,9 +60,9 @@ export function getRandomUserAgent(): string {
 }
 
 /**
- * Apply stealth configuration to browser context
+ * Apply stealth configuration to a browser or browser context
  */
-export async function applyStealthConfig(browser: Browser, config: StealthConfig = {}): Promise<void> {
+export async function applyStealthConfig(target: Browser | BrowserContext, config: StealthConfig = {}): Promise<void> {
   console.log('[stealth] Apply config called (stub)');
 }
 
@@ -26,7 +26,8 @@ async function testCoordinator() {
 
     // Test scraping a single city with 1 page
     logger.info('Scraping Milano (1 page)...');
-    const count = await coordinator.scrapeCity('milano', 'sale', 1);
+    const { ids } = await coordinator.scrapeCity('milano', 'sale', 1);
+    const count = ids.length;
 
     logger.info(`✓ Coordinator: Discovered ${count} listing IDs`);
 
@@ -62,7 +63,8 @@ async function testWorker() {
     }
 
     // Pop one item and process it
-    const id = await queue.popListingId(1);
+    const listing = await queue.popListing(1);
+    const id = listing?.id;
 
     if (id) {
       logger.info(`Processing listing ${id}...`);
@@ -119,9 +121,9 @@ async function testQueue() {
 
     // Test push/pop
     await queue.pushListingId('test-123');
-    const id = await queue.popListingId(1);
+    const listing = await queue.popListing(1);
 
-    if (id === 'test-123') {
+    if (listing?.id === 'test-123') {
       logger.info('✓ Queue: Push/pop working');
     } else {
       logger.error('Queue: Push/pop failed');
@@ -255,6 +255,9 @@ function extractCountrySpecific(property: Property): Record<string, any> {
 
   // Add original Italian property type
   countrySpecific.tipologia_originale = property.propertyType;
+  if (property.category) {
+    countrySpecific.categoria = property.category;
+  }
 
   return countrySpecific;
 }
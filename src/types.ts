@@ -10,6 +10,7 @@ export interface Property {
   currency: string;
   propertyType: string;
   transactionType: string;
+  category?: string; // portal category the listing was discovered in (CATEGORIES)
   source?: string;
   location: {
     address?: string;
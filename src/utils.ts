@@ -15,3 +15,49 @@ export function randomDelay(min: number, max: number): Promise<void> {
   const ms = Math.floor(Math.random() * (max - min + 1)) + min;
   return delay(ms);
 }
+
+/**
+ * Exponential backoff delay for a 1-based attempt number
+ * Doubles from baseMs per attempt, capped at maxMs, +/- jitterRatio
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  jitterRatio: number = 0
+): number {
+  const exponential = Math.min(baseMs * Math.pow(2, Math.max(attempt - 1, 0)), maxMs);
+  const jitter = exponential * jitterRatio * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(exponential + jitter));
+}
+
+/**
+ * Call fn for every item with at most `concurrency` calls in flight
+ * No new items are started after a call throws; the first error is thrown
+ * once the calls in flight have finished
+ */
+export async function runConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  const errors: unknown[] = [];
+  let next = 0;
+
+  const runner = async (): Promise<void> => {
+    while (errors.length === 0 && next < items.length) {
+      const item = items[next++];
+      try {
+        await fn(item);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  const runners = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: runners }, runner));
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+}
@@ -2,36 +2,68 @@
  * Immobiliare.it Verifier Worker
  *
  * Verifies properties that haven't been seen recently.
- * Marks them as inactive if they're no longer available.
+ * Marks them as inactive if they're no longer available
+ * (and publishes an inactive event).
+ * Registers itself with heartbeats; the listing of a stale verifier is
+ * put back on the missing queue.
+ * Each sweep is a 'verify' scrape run: inactive properties and errors are
+ * counted on it, and so are the detail refreshes it queues for active ones.
  *
  * Usage:
  *   npm run worker:verifier
  */
 
-import { RedisQueue } from './redis-queue';
-import { ScraperDatabase } from './database';
+import { QueueBackend } from './queue-backend';
+import { createQueue } from './queue';
+import { RateLimiter, createRateLimiter } from './rate-limiter';
+import { EventPublisher, createEventPublisher } from './events';
+import { ScraperStore, createScraperStore } from './database';
 import { markPropertyInactive } from './core';
+import { finishQueueing, recordRunResult } from './runs';
 import { createLogger } from './logger';
 import { randomDelay } from './utils';
 import axios from 'axios';
+import * as os from 'os';
+import { config } from './config';
 
 const logger = createLogger('Verifier');
 
 const BASE_URL = 'https://www.immobiliare.it';
 
 export class ImmobiliareVerifier {
-  private queue: RedisQueue;
-  private db: ScraperDatabase;
+  private queue: QueueBackend;
+  private db: ScraperStore;
+  private rateLimiter: RateLimiter;
+  private events: EventPublisher;
   private workerId: string;
+  private triggeredBy?: string;
+  private runId: number | null = null;
   private isRunning: boolean = false;
   private verifiedCount: number = 0;
   private inactiveCount: number = 0;
   private activeCount: number = 0;
-
-  constructor(workerId?: string) {
-    this.workerId = workerId || `verifier-${process.pid}`;
-    this.queue = new RedisQueue('immobiliare');
-    this.db = new ScraperDatabase();
+  private errorCount: number = 0;
+  private startedAt: number = Date.now();
+  private currentListing: string | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private lastMaintenanceAt: number = 0;
+
+  constructor(
+    workerId?: string,
+    deps: {
+      queue?: QueueBackend;
+      db?: ScraperStore;
+      rateLimiter?: RateLimiter;
+      events?: EventPublisher;
+      triggeredBy?: string;
+    } = {}
+  ) {
+    this.workerId = workerId || `verifier-${os.hostname()}-${process.pid}`;
+    this.triggeredBy = deps.triggeredBy;
+    this.queue = deps.queue || createQueue('immobiliare');
+    this.db = deps.db || createScraperStore();
+    this.rateLimiter = deps.rateLimiter || createRateLimiter('immobiliare');
+    this.events = deps.events || createEventPublisher('immobiliare');
   }
 
   async initialize() {
@@ -47,6 +79,7 @@ export class ImmobiliareVerifier {
     const url = `${BASE_URL}/annunci/${listingId}/`;
 
     try {
+      await this.rateLimiter.acquire('verifier_head');
       const response = await axios.head(url, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -73,9 +106,10 @@ export class ImmobiliareVerifier {
       const exists = await this.verifyProperty(id);
 
       if (exists) {
-        // Property still active
+        // Property still active - refresh its details on the verify lane
         logger.info(`[${this.workerId}] ✓ ${id} - still active`);
         await this.queue.updateLastSeen(id);
+        await this.queue.enqueueRefresh([id], 'verify', this.runId ?? undefined);
         this.activeCount++;
       } else {
         // Property removed/sold
@@ -87,7 +121,8 @@ export class ImmobiliareVerifier {
         // Send to Core Service
         await markPropertyInactive(id, 'verified_removed');
 
-        // Update database
+        // Update database (keeping the last known status/price for the event)
+        const previous = await this.db.getPropertyMetadata(id);
         await this.db.updatePropertyMetadata(id, {
           lastSeen: new Date(),
           currentStatus: 'inactive',
@@ -95,12 +130,62 @@ export class ImmobiliareVerifier {
           hasChanges: false,
         });
 
+        await this.events.publish({
+          type: 'inactive',
+          portalId: id,
+          oldValue: {
+            status: previous?.current_status ?? null,
+            price: previous?.current_price != null ? parseFloat(previous.current_price) : null,
+          },
+          newValue: { status: 'inactive', reason: 'verified_removed' },
+          source: 'verifier',
+        });
+
+        await recordRunResult(this.queue, this.db, this.runId ?? undefined, { inactive: 1 });
         this.inactiveCount++;
       }
 
       this.verifiedCount++;
     } catch (error) {
       logger.error(`[${this.workerId}] Error verifying ${id}:`, error);
+      await recordRunResult(this.queue, this.db, this.runId ?? undefined, { errors: 1 });
+      this.errorCount++;
+    }
+  }
+
+  /**
+   * Publish registry entry (verified/inactive/active/errors are reported
+   * as processed/changed/unchanged/failed)
+   */
+  private async sendHeartbeat(): Promise<void> {
+    try {
+      await this.queue.heartbeatWorker({
+        workerId: this.workerId,
+        kind: 'verifier',
+        hostname: os.hostname(),
+        pid: process.pid,
+        startedAt: this.startedAt,
+        currentListing: this.currentListing,
+        fetchMode: 'head',
+        counters: {
+          processed: this.verifiedCount,
+          changed: this.inactiveCount,
+          unchanged: this.activeCount,
+          failed: this.errorCount,
+        },
+      });
+    } catch (error) {
+      logger.error(`[${this.workerId}] Heartbeat failed:`, error);
+    }
+  }
+
+  /**
+   * Stop sending registry heartbeats
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
   }
 
@@ -123,18 +208,57 @@ export class ImmobiliareVerifier {
   }
 
   /**
-   * Start verification worker
+   * Start verification worker (one 'verify' scrape run per start)
    */
   async start(): Promise<void> {
     this.isRunning = true;
+    this.startedAt = Date.now();
     logger.info(`[${this.workerId}] Starting verifier...`);
 
+    this.runId = await this.db.startScrapeRun('verify', this.triggeredBy);
+    try {
+      await this.verifyMissing();
+    } catch (error) {
+      await this.abortRun(String(error));
+      throw error;
+    }
+
+    await finishQueueing(this.queue, this.db, this.runId, {
+      propertiesDiscovered: this.verifiedCount,
+      notes: `${this.verifiedCount} verified (${this.activeCount} active, ${this.inactiveCount} inactive)`,
+    });
+    this.runId = null;
+  }
+
+  /**
+   * Mark the current run as failed (crash or shutdown)
+   */
+  async abortRun(reason: string): Promise<void> {
+    if (this.runId === null) return;
+    const runId = this.runId;
+    this.runId = null;
+    await this.db.failScrapeRun(runId, reason);
+  }
+
+  /**
+   * Queue missing properties and verify them until the missing queue is empty
+   */
+  private async verifyMissing(): Promise<void> {
+    await this.sendHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), config.workerHeartbeatMs);
+
     // First, queue missing properties
     await this.queueMissingProperties(24); // 24 hours
 
     // Process verification queue
     while (this.isRunning) {
       try {
+        // Recover listings of crashed verifiers/workers
+        if (Date.now() - this.lastMaintenanceAt >= config.leaseReapIntervalMs) {
+          await this.queue.recoverStaleWorkers();
+          this.lastMaintenanceAt = Date.now();
+        }
+
         // Pop from missing queue
         const id = await this.queue.popFromMissingQueue(5);
 
@@ -147,8 +271,11 @@ export class ImmobiliareVerifier {
           continue;
         }
 
-        // Verify property
+        // Verify property (registered first so it can be recovered if we crash)
+        this.currentListing = id;
+        await this.sendHeartbeat();
         await this.processVerification(id);
+        this.currentListing = null;
 
         // Rate limiting
         await randomDelay(1000, 2000);
@@ -162,10 +289,14 @@ export class ImmobiliareVerifier {
         }
       } catch (error) {
         logger.error(`[${this.workerId}] Verifier error:`, error);
+        this.currentListing = null;
         await randomDelay(5000, 10000);
       }
     }
 
+    this.stopHeartbeat();
+    await this.queue.unregisterWorker(this.workerId);
+
     logger.info(
       `[${this.workerId}] Verifier stopped. ` +
       `Verified: ${this.verifiedCount}, Active: ${this.activeCount}, Inactive: ${this.inactiveCount}`
@@ -184,7 +315,10 @@ export class ImmobiliareVerifier {
    * Close connections
    */
   async close(): Promise<void> {
+    this.stopHeartbeat();
     await this.queue.close();
+    await this.rateLimiter.close();
+    await this.events.close();
     await this.db.close();
     logger.info(`[${this.workerId}] Verifier closed`);
   }
@@ -194,6 +328,7 @@ export class ImmobiliareVerifier {
 
 async function main() {
   const verifier = new ImmobiliareVerifier();
+  activeVerifier = verifier;
 
   try {
     await verifier.initialize();
@@ -208,16 +343,23 @@ async function main() {
   process.exit(0);
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('\nReceived SIGINT, shutting down gracefully...');
-  process.exit(0);
-});
+// Handle graceful shutdown (the interrupted run is marked failed; only when
+// run directly, the scheduler handles its own jobs)
+let activeVerifier: ImmobiliareVerifier | null = null;
 
-process.on('SIGTERM', async () => {
-  logger.info('\nReceived SIGTERM, shutting down gracefully...');
-  process.exit(0);
-});
+if (require.main === module) {
+  process.on('SIGINT', async () => {
+    logger.info('\nReceived SIGINT, shutting down gracefully...');
+    await activeVerifier?.abortRun('Interrupted (SIGINT)').catch(() => {});
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', async () => {
+    logger.info('\nReceived SIGTERM, shutting down gracefully...');
+    await activeVerifier?.abortRun('Interrupted (SIGTERM)').catch(() => {});
+    process.exit(0);
+  });
+}
 
 // Execute
 if (require.main === module) {
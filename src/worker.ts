@@ -5,96 +5,128 @@
  *
  * Features:
  * - Distributed processing (run multiple workers)
+ * - Leased pops: IDs of crashed workers are re-queued after the lease expires
+ *   (leases are renewed with every heartbeat)
+ * - Priority lanes (new, high-change, refresh, verify) drained in weighted order
+ * - Segment subscriptions (WORKER_SEGMENTS, e.g. "sale" or "rent:milano,rent:roma")
+ * - Registry heartbeats; work of stale workers is recovered
  * - Automatic retry with exponential backoff
  * - Change detection with checksums
- * - Rate limiting per worker
+ * - Cluster-wide rate limiting (shared Redis token buckets)
+ * - Lifecycle events (price_changed, reactivated) on the event stream
  *
  * Usage:
  *   npm run worker
  */
 
 import axios from 'axios';
+import * as os from 'os';
 import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import { config } from './config';
+import { config, PropertyCategory } from './config';
 import { createLogger } from './logger';
 import { randomDelay } from './utils';
-import { RedisQueue } from './redis-queue';
-import { ScraperDatabase } from './database';
+import { QueueBackend, QueueLane, ChangeOutcome } from './queue-backend';
+import { createQueue } from './queue';
+import { RateLimiter, createRateLimiter } from './rate-limiter';
+import { EventPublisher, NewPropertyEvent, createEventPublisher } from './events';
+import { ScraperStore, createScraperStore } from './database';
+import { recordRunResult } from './runs';
 import { sendToCoreService } from './core';
 import { createIngestionPayload } from './transformer';
 import { parseApiResponse } from './parser';
 import type { Property } from './types';
 import { applyStealthConfig, applyPageStealth } from './stealth';
+import { classifyFailure, getRetryDelay, FetchStrategy } from './failures';
 
 const logger = createLogger('Worker');
 
 const BASE_URL = 'https://www.immobiliare.it';
 
+/** Lanes re-fetched even when the epoch already processed the ID */
+const REFRESH_LANES: QueueLane[] = ['high_change', 'refresh'];
+
 export class ImmobiliareWorker {
-  private queue: RedisQueue;
-  private db: ScraperDatabase;
+  private queue: QueueBackend;
+  private db: ScraperStore;
+  private rateLimiter: RateLimiter;
+  private events: EventPublisher;
   private workerId: string;
+  private segmentPatterns: string[];
+  private segments: string[] = [];
   private isRunning: boolean = false;
   private processedCount: number = 0;
   private failedCount: number = 0;
   private changedCount: number = 0;
   private unchangedCount: number = 0;
+  private followUpErrorCount: number = 0; // processed listings whose metadata or events failed
+  private lastMaintenanceAt: number = 0;
+  private lastFetchStrategy: FetchStrategy = 'http';
+  private startedAt: number = Date.now();
+  private currentListing: string | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
 
   // Browser (lazy init for headless scraping if needed)
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
 
-  constructor(workerId?: string) {
-    this.workerId = workerId || `worker-${process.pid}`;
-    this.queue = new RedisQueue('immobiliare');
-    this.db = new ScraperDatabase();
+  constructor(
+    workerId?: string,
+    segmentPatterns: string[] = config.workerSegments,
+    deps: { queue?: QueueBackend; db?: ScraperStore; rateLimiter?: RateLimiter; events?: EventPublisher } = {}
+  ) {
+    this.workerId = workerId || `worker-${os.hostname()}-${process.pid}`;
+    this.segmentPatterns = segmentPatterns;
+    this.queue = deps.queue || createQueue('immobiliare');
+    this.db = deps.db || createScraperStore();
+    this.rateLimiter = deps.rateLimiter || createRateLimiter('immobiliare');
+    this.events = deps.events || createEventPublisher('immobiliare');
   }
 
   async initialize() {
     await this.queue.initialize();
     await this.db.initialize();
+    await this.refreshSegments();
     logger.info(`Worker ${this.workerId} initialized`);
   }
 
   /**
    * Fetch property details using direct URL scraping
    * Falls back to browser if needed
+   * Fetch errors are thrown so the caller can classify them for retry
    */
   async fetchPropertyDetail(listingId: string): Promise<Property | null> {
     const url = `${BASE_URL}/annunci/${listingId}/`;
 
-    try {
-      // Try direct fetch first (faster)
-      const response = await axios.get(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml',
-          'Accept-Language': 'it-IT,it;q=0.9,en-US;q=0.8,en;q=0.7',
-        },
-        timeout: 30000,
-      });
+    // Try direct fetch first (faster)
+    this.lastFetchStrategy = 'http';
+    await this.rateLimiter.acquire('detail_html');
+    const response = await axios.get(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml',
+        'Accept-Language': 'it-IT,it;q=0.9,en-US;q=0.8,en;q=0.7',
+      },
+      timeout: 30000,
+    });
 
-      // Extract __NEXT_DATA__ from HTML
-      const html = response.data;
-      const nextDataMatch = html.match(/<script id="__NEXT_DATA__" type="application\/json">(.*?)<\/script>/);
+    // Extract __NEXT_DATA__ from HTML
+    const html = response.data;
+    const nextDataMatch = html.match(/<script id="__NEXT_DATA__" type="application\/json">(.*?)<\/script>/);
 
-      if (nextDataMatch) {
-        const nextData = JSON.parse(nextDataMatch[1]);
-        const propertyData = nextData?.props?.pageProps?.listing || nextData?.props?.pageProps?.realEstate;
+    if (nextDataMatch) {
+      const nextData = JSON.parse(nextDataMatch[1]);
+      const propertyData = nextData?.props?.pageProps?.listing || nextData?.props?.pageProps?.realEstate;
 
-        if (propertyData) {
-          const properties = parseApiResponse({ realEstates: [{ realEstate: propertyData }] });
-          return properties[0] || null;
-        }
+      if (propertyData) {
+        const properties = parseApiResponse({ realEstates: [{ realEstate: propertyData }] });
+        return properties[0] || null;
       }
-
-      // Fallback to browser if direct fetch didn't work
-      logger.warn(`Direct fetch failed for ${listingId}, trying browser...`);
-      return await this.fetchWithBrowser(listingId);
-    } catch (error) {
-      logger.error(`Fetch failed for ${listingId}:`, error);
-      return null;
     }
+
+    // Fallback to browser if direct fetch didn't work
+    logger.warn(`Direct fetch failed for ${listingId}, trying browser...`);
+    this.lastFetchStrategy = 'browser';
+    return await this.fetchWithBrowser(listingId);
   }
 
   /**
@@ -115,7 +147,15 @@ export class ImmobiliareWorker {
 
     try {
       const url = `${BASE_URL}/annunci/${listingId}/`;
-      await page.goto(url, { waitUntil: 'networkidle', timeout: 60000 });
+      await this.rateLimiter.acquire('detail_browser');
+      const response = await page.goto(url, { waitUntil: 'networkidle', timeout: 60000 });
+
+      // Surface HTTP errors (403 = DataDome) so they are retried appropriately
+      if (response && response.status() >= 400) {
+        const error: any = new Error(`Browser fetch failed with status ${response.status()}`);
+        error.status = response.status();
+        throw error;
+      }
 
       // Extract __NEXT_DATA__
       const nextData = await page.evaluate(() => {
@@ -170,31 +210,53 @@ export class ImmobiliareWorker {
   }
 
   /**
-   * Process single listing ID
+   * Process single listing ID (category = search category it was discovered
+   * in, runId = scrape run that queued it; the outcome is counted on the run;
+   * lane = lane it was popped from). Only the fetch and storage are retried;
+   * once the listing is settled, follow-up failures are logged and counted.
    */
-  async processListing(id: string): Promise<boolean> {
+  async processListing(
+    id: string,
+    segment?: string,
+    category?: PropertyCategory,
+    runId?: number,
+    lane?: QueueLane
+  ): Promise<boolean> {
+    let property: Property | null;
+    let outcome: ChangeOutcome;
     try {
-      // Check if already processed (race condition check)
-      const isProcessed = await this.queue.isProcessed(id);
+      // Check if already processed (race condition check; refreshes re-fetch)
+      const refresh = lane !== undefined && REFRESH_LANES.includes(lane);
+      const isProcessed = !refresh && await this.queue.isProcessed(id);
       if (isProcessed) {
         logger.debug(`[${this.workerId}] Skipping ${id} - already processed`);
+        await this.queue.acknowledge(id);
+        await recordRunResult(this.queue, this.db, runId, {});
         return true;
       }
 
       // Fetch property details
-      const property = await this.fetchPropertyDetail(id);
+      property = await this.fetchPropertyDetail(id);
 
       if (!property) {
         logger.warn(`[${this.workerId}] No data found for ${id}`);
-        await this.queue.markFailed(id, 'No data returned');
+        await this.queue.markFailed(id, 'No data returned', {
+          errorClass: 'no_data',
+          strategy: this.lastFetchStrategy,
+          workerId: this.workerId,
+        });
+        await recordRunResult(this.queue, this.db, runId, { errors: 1 });
         this.failedCount++;
         return false;
       }
+      if (category) {
+        property.category = category;
+      }
 
       // Check for changes
-      const hasChanged = await this.queue.hasPropertyChanged(id, property);
+      outcome = await this.queue.detectChange(id, property);
 
-      if (hasChanged) {
+      if (outcome !== 'unchanged') {
         // Send to Core Service
         const payload = createIngestionPayload(property, property);
         await sendToCoreService(payload);
@@ -213,35 +275,99 @@ export class ImmobiliareWorker {
         this.unchangedCount++;
       }
 
-      // Mark as processed
-      await this.queue.markProcessed(id);
+      // Mark as processed (and count the change outcome)
+      await this.queue.markProcessed(id, outcome);
+    } catch (error) {
+      logger.error(`[${this.workerId}] Error processing ${id}:`, error);
+
+      // Retry with exponential backoff, delay chosen by failure class
+      const failure = classifyFailure(error);
+      const retryCount = await this.queue.getRetryCount(id);
+      if (failure.retryable && retryCount < config.maxRetries) {
+        const delayMs = getRetryDelay(failure.failureClass, retryCount + 1);
+        await this.queue.requeueWithRetry(id, config.maxRetries, delayMs);
+        logger.info(
+          `[${this.workerId}] Scheduled retry of ${id} in ${Math.round(delayMs / 1000)}s ` +
+          `(${failure.failureClass}, retry ${retryCount + 1}/${config.maxRetries})`
+        );
+      } else {
+        await this.queue.markFailed(id, String(error), {
+          errorClass: failure.failureClass,
+          httpStatus: failure.httpStatus,
+          strategy: this.lastFetchStrategy,
+          attempts: retryCount + 1,
+          workerId: this.workerId,
+        });
+        await recordRunResult(this.queue, this.db, runId, { errors: 1 });
+        this.failedCount++;
+      }
+
+      return false;
+    }
+
+    await recordRunResult(this.queue, this.db, runId, { [outcome]: 1 });
+    this.processedCount++;
+
+    // The listing is settled: a failure from here on must not retry or dead-letter it
+    try {
       await this.queue.updateLastSeen(id);
 
+      // Compare with stored metadata before it is overwritten
+      const previous = await this.db.getPropertyMetadata(id);
+      await this.publishLifecycleEvents(id, property, previous, segment, runId);
+
       // Update metadata
       await this.db.updatePropertyMetadata(id, {
         lastSeen: new Date(),
         currentStatus: 'active',
         currentPrice: property.price,
-        hasChanges: hasChanged,
+        hasChanges: outcome !== 'unchanged',
       });
-
-      this.processedCount++;
-      return true;
     } catch (error) {
-      logger.error(`[${this.workerId}] Error processing ${id}:`, error);
+      logger.error(`[${this.workerId}] Follow-up of processed ${id} failed:`, error);
+      this.followUpErrorCount++;
+    }
+    return true;
+  }
 
-      // Retry with exponential backoff
-      const retryCount = await this.queue.getRetryCount(id);
-      if (retryCount < 3) {
-        await this.queue.requeueWithRetry(id, 3);
-        logger.info(`[${this.workerId}] Re-queued ${id} (retry ${retryCount + 1}/3)`);
-      } else {
-        await this.queue.markFailed(id, String(error));
-        this.failedCount++;
-      }
+  /**
+   * Publish reactivated / price_changed events against the previous metadata
+   * (tagged with the run that queued the listing, else the segment's epoch run)
+   */
+  private async publishLifecycleEvents(
+    id: string,
+    property: Property,
+    previous: { current_status?: string; current_price?: string | null } | null,
+    segment?: string,
+    queuedByRun?: number
+  ): Promise<void> {
+    const events: NewPropertyEvent[] = [];
+    const wasInactive = await this.queue.markReactivated(id);
+    if (wasInactive || previous?.current_status === 'inactive') {
+      events.push({
+        type: 'reactivated',
+        portalId: id,
+        oldValue: { status: 'inactive' },
+        newValue: { status: 'active', price: property.price },
+        source: 'worker',
+      });
+    }
 
-      return false;
+    const oldPrice = previous?.current_price != null ? parseFloat(previous.current_price) : null;
+    if (oldPrice !== null && property.price != null && oldPrice !== property.price) {
+      events.push({
+        type: 'price_changed',
+        portalId: id,
+        oldValue: oldPrice,
+        newValue: property.price,
+        source: 'worker',
+      });
     }
+
+    if (events.length === 0) return;
+
+    const runId = queuedByRun ?? (await this.queue.getEpochStats(undefined, segment)).runId;
+    await this.events.publishMany(events.map(event => ({ ...event, runId })));
   }
 
   /**
@@ -256,30 +382,98 @@ export class ImmobiliareWorker {
     return Buffer.from(data).toString('base64').substring(0, 32);
   }
 
+  /**
+   * Resolve subscribed segment patterns against the known segments
+   * (picks up segments created after the worker started)
+   */
+  private async refreshSegments(): Promise<void> {
+    const segments = await this.queue.resolveSegments(this.segmentPatterns);
+    if (segments.join(',') !== this.segments.join(',')) {
+      logger.info(`[${this.workerId}] Consuming segments: ${segments.join(', ') || '(none yet)'}`);
+    }
+    this.segments = segments;
+  }
+
+  /**
+   * Reclaim expired leases, recover stale workers, promote due retries
+   * and refresh segment subscriptions
+   */
+  private async runQueueMaintenance(): Promise<void> {
+    await this.queue.reclaimExpiredLeases();
+    await this.queue.recoverStaleWorkers();
+    await this.queue.promoteDueRetries();
+    await this.refreshSegments();
+    this.lastMaintenanceAt = Date.now();
+  }
+
+  /**
+   * Publish registry entry (current listing, counters, fetch mode) and renew
+   * the leases held (a fetch waiting on rate limits, the browser fallback or
+   * retries can outlast LEASE_TIMEOUT_MS)
+   */
+  private async sendHeartbeat(): Promise<void> {
+    try {
+      await this.queue.extendLeases(this.workerId);
+      await this.queue.heartbeatWorker({
+        workerId: this.workerId,
+        kind: 'worker',
+        hostname: os.hostname(),
+        pid: process.pid,
+        startedAt: this.startedAt,
+        currentListing: this.currentListing,
+        fetchMode: this.lastFetchStrategy,
+        segments: this.segments,
+        counters: {
+          processed: this.processedCount,
+          changed: this.changedCount,
+          unchanged: this.unchangedCount,
+          failed: this.failedCount,
+        },
+      });
+    } catch (error) {
+      logger.error(`[${this.workerId}] Heartbeat failed:`, error);
+    }
+  }
+
   /**
    * Start processing queue
    */
   async start(): Promise<void> {
     this.isRunning = true;
+    this.startedAt = Date.now();
     logger.info(`[${this.workerId}] Starting worker...`);
 
+    await this.sendHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), config.workerHeartbeatMs);
+
     while (this.isRunning) {
       try {
-        // Pop listing ID from queue (blocking)
-        const id = await this.queue.popListingId(5);
+        if (Date.now() - this.lastMaintenanceAt >= config.leaseReapIntervalMs) {
+          await this.runQueueMaintenance();
+        }
 
-        if (!id) {
+        // Pop and lease next listing from the subscribed segments (blocking)
+        const listing = await this.queue.popListing(5, this.workerId, this.segments);
+
+        if (!listing) {
           // No items in queue, check stats
-          const stats = await this.queue.getStats();
-          if (stats.remaining === 0) {
+          const stats = await this.queue.getStats(this.segments);
+          if (stats.remaining === 0 && stats.inFlight === 0 && stats.retryScheduled === 0) {
             logger.info(`[${this.workerId}] Queue empty, stopping...`);
             break;
           }
+          if (stats.remaining === 0) {
+            // Leases held by other workers or retries not yet due - keep waiting
+            await this.runQueueMaintenance();
+          }
           continue;
         }
 
         // Process listing
-        await this.processListing(id);
+        logger.debug(`[${this.workerId}] Processing ${listing.id} (${listing.segment}/${listing.lane})`);
+        this.currentListing = listing.id;
+        await this.processListing(listing.id, listing.segment, listing.category, listing.runId, listing.lane);
+        this.currentListing = null;
 
         // Rate limiting
         await randomDelay(config.requestDelayMs, config.requestDelayMs + 1000);
@@ -293,14 +487,19 @@ export class ImmobiliareWorker {
         }
       } catch (error) {
         logger.error(`[${this.workerId}] Worker error:`, error);
+        this.currentListing = null;
         await randomDelay(5000, 10000); // Back off on error
       }
     }
 
+    this.stopHeartbeat();
+    await this.queue.unregisterWorker(this.workerId);
+
     logger.info(
       `[${this.workerId}] Worker stopped. ` +
       `Processed: ${this.processedCount}, Changed: ${this.changedCount}, ` +
-      `Unchanged: ${this.unchangedCount}, Failed: ${this.failedCount}`
+      `Unchanged: ${this.unchangedCount}, Failed: ${this.failedCount}, ` +
+      `Follow-up errors: ${this.followUpErrorCount}`
     );
   }
 
@@ -312,13 +511,26 @@ export class ImmobiliareWorker {
     logger.info(`[${this.workerId}] Stopping worker...`);
   }
 
+  /**
+   * Stop sending registry heartbeats
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
   /**
    * Close connections
    */
   async close(): Promise<void> {
+    this.stopHeartbeat();
     if (this.context) await this.context.close();
     if (this.browser) await this.browser.close();
     await this.queue.close();
+    await this.rateLimiter.close();
+    await this.events.close();
     await this.db.close();
     logger.info(`[${this.workerId}] Worker closed`);
   }
@@ -328,6 +540,7 @@ export class ImmobiliareWorker {
 
 async function main() {
   const worker = new ImmobiliareWorker();
+  activeWorker = worker;
 
   try {
     await worker.initialize();
@@ -342,16 +555,23 @@ async function main() {
   process.exit(0);
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('\nReceived SIGINT, shutting down gracefully...');
-  process.exit(0);
-});
+// Handle graceful shutdown (the worker finishes its current listing, then
+// main closes it and exits; only when run directly, local runs handle their own)
+let activeWorker: ImmobiliareWorker | null = null;
 
-process.on('SIGTERM', async () => {
-  logger.info('\nReceived SIGTERM, shutting down gracefully...');
-  process.exit(0);
-});
+if (require.main === module) {
+  process.on('SIGINT', () => {
+    logger.info('\nReceived SIGINT, shutting down gracefully...');
+    if (!activeWorker) process.exit(0);
+    activeWorker.stop();
+  });
+
+  process.on('SIGTERM', () => {
+    logger.info('\nReceived SIGTERM, shutting down gracefully...');
+    if (!activeWorker) process.exit(0);
+    activeWorker.stop();
+  });
+}
 
 // Execute
 if (require.main === module) {